@@ -1,14 +1,80 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as tls from 'tls';
+import { Agent, ProxyAgent, fetch as undiciFetch, type Dispatcher, type Response } from 'undici';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
 
 interface InstructionSource {
+	/** Language this source applies to, or '*' to apply to every workspace */
 	language: string;
 	url: string;
+	/** Framework or tool this source applies to (e.g. 'react', 'aspnetcore', 'django'), in addition to the language */
+	framework?: string;
 	enabled?: boolean;
 	destinationFolder?: string;
 	destinationFile?: string;
+	/** Identifier of the managed block in the destination file (defaults to a slug of the language) */
+	id?: string;
+	/** If true, only a marked block of the destination file is managed; other content is preserved */
+	managed?: boolean;
+	/** Where a missing managed block is inserted (defaults to instructionSync.managedBlockPosition) */
+	insertPosition?: ManagedBlockPosition;
+	/** Position of this source's section when several sources share a destination (default: 0) */
+	order?: number;
+	/** Section heading used when several sources share a destination (default: the language; empty for none) */
+	heading?: string;
+	/** If false, {{placeholders}} in the fetched content are not expanded (default: true) */
+	template?: boolean;
+	/**
+	 * Glob(s) the instructions apply to, written as `applyTo` frontmatter of a path-scoped
+	 * `.github/instructions/*.instructions.md` file; true derives them from the language's detection patterns
+	 */
+	applyTo?: string | string[] | boolean;
+	/** Assistants whose instruction files are written from this source (defaults to instructionSync.targets) */
+	targets?: InstructionTarget[];
+	/**
+	 * 'directory' mirrors a whole folder into destinationFolder. GitHub tree URLs and
+	 * local paths ending in a slash are directories without setting this.
+	 */
+	type?: 'file' | 'directory';
+	/** Git tag, branch or commit SHA to fetch GitHub and Azure DevOps sources at */
+	ref?: string;
+	/** Semver range of tags offered as updates for a pinned `ref` (default: same major version, e.g. ^1.2.0) */
+	versionRange?: string;
+	/** Additional request headers; credentials belong in SecretStorage (see setHostCredentials) */
+	headers?: Record<string, string>;
+	/**
+	 * Expected SHA-256 (hex) of the fetched content, or of the file manifest of a directory
+	 * source, as recorded in the lock file; the sync fails if the content doesn't match
+	 */
+	sha256?: string;
+	/**
+	 * Profiles the source belongs to; a source with profiles is only synced in repositories
+	 * whose repository configuration subscribes to one of them (or to its id)
+	 */
+	profiles?: string[];
+	/**
+	 * Set in the remote configuration: the source can't be replaced, disabled or excluded by
+	 * later layers, instructionSync.sources or repository configurations
+	 */
+	required?: boolean;
+	/**
+	 * Set by the extension: the configuration layer the source comes from, i.e. the URL of
+	 * a remote configuration, 'settings' for instructionSync.sources or the path of a
+	 * repository configuration
+	 */
+	origin?: string;
 }
 
+/** AI assistant whose instruction file format a source is rendered into */
+type InstructionTarget = 'copilot' | 'agents' | 'claude' | 'cursor' | 'windsurf';
+
+/** Where a managed block is inserted into a destination file that doesn't contain it yet */
+type ManagedBlockPosition = 'top' | 'bottom';
+
 /**
  * Configuration for syncing VS Code settings from remote config
  */
@@ -31,22 +97,207 @@ interface SettingChange {
 	scope: 'user' | 'workspace';
 }
 
+/**
+ * A behavior flag set by the remote configuration: a default that the user's settings override,
+ * or an enforced value
+ */
+type RemoteFlag = boolean | { value: boolean; enforced?: boolean };
+
+/**
+ * Behavior flags set by the remote configuration
+ */
+interface RemoteFlags {
+	syncOnOpen?: RemoteFlag;
+	syncOnConfigChange?: RemoteFlag;
+	confirmBeforeSync?: RemoteFlag;
+}
+
+/** Name of a behavior flag, which is also the name of its setting */
+type FlagName = keyof RemoteFlags;
+
+/** Built-in values of the behavior flags */
+const FLAG_DEFAULTS: Record<FlagName, boolean> = {
+	syncOnOpen: true,
+	syncOnConfigChange: false,
+	confirmBeforeSync: true
+};
+
+/**
+ * Effective value of a behavior flag and where it comes from
+ */
+interface EffectiveFlag {
+	value: boolean;
+	/** 'policy' if the remote configuration enforces the value */
+	source: 'policy' | 'settings' | 'remote' | 'default';
+	/** Set if an enforced value overrides a different value in the user's settings */
+	overridden?: boolean;
+}
+
 interface RemoteConfig {
+	/** Format version (see REMOTE_CONFIG_VERSION) */
+	version?: number;
+	/** Configurations this one builds on and overrides, resolved relative to its URL */
+	extends?: string | string[];
 	sources?: InstructionSource[];
 	settings?: SettingsConfig[];
-	syncOnOpen?: boolean;
-	syncOnConfigChange?: boolean;
-	confirmBeforeSync?: boolean;
+	flags?: RemoteFlags;
+	/** Custom template variables, available as {{vars.<name>}} */
+	variables?: Record<string, string>;
+	/** Language detection patterns, overriding the built-in patterns per language */
+	languagePatterns?: Record<string, LanguagePattern[]>;
+}
+
+/**
+ * Repository configuration, committed as .instruction-sync.json or .github/instruction-sync.json
+ */
+interface WorkspaceConfig {
+	/** Profiles (or source ids) of the central configuration the repository subscribes to */
+	subscribe?: string[];
+	/** Additional sources; local paths are relative to the configuration file */
+	sources?: InstructionSource[];
+	/** Central sources the repository opts out of, by id, language or URL */
+	exclude?: string[];
+}
+
+/** Repository configuration files, relative to a workspace folder, in order of precedence */
+const WORKSPACE_CONFIG_FILES = ['.instruction-sync.json', '.github/instruction-sync.json'];
+
+/** Current version of the remote configuration format */
+const REMOTE_CONFIG_VERSION = 2;
+
+/**
+ * Upgrades a remote configuration to the next format version, indexed by the version it upgrades from.
+ * Configurations without a version are version 1.
+ */
+const REMOTE_CONFIG_MIGRATIONS: Record<number, (config: Record<string, unknown>) => Record<string, unknown>> = {
+	// Version 2 groups the behavior flags under `flags`
+	1: ({ syncOnOpen, syncOnConfigChange, confirmBeforeSync, ...config }) => {
+		const flags = Object.fromEntries(
+			Object.entries({ syncOnOpen, syncOnConfigChange, confirmBeforeSync }).filter(([, value]) => value !== undefined)
+		);
+		return Object.keys(flags).length > 0 ? { ...config, flags: { ...flags, ...config.flags as object } } : config;
+	}
+};
+
+/**
+ * Collections of a configuration whose entries are dropped individually when invalid,
+ * with the depth of an entry's JSON pointer and how an entry is called in diagnostics
+ */
+type ConfigCollections = Record<string, { depth: number; entry: string }>;
+
+/** Collections of the remote configuration */
+const REMOTE_CONFIG_COLLECTIONS: ConfigCollections = {
+	sources: { depth: 2, entry: 'source' },
+	settings: { depth: 2, entry: 'settings entry' },
+	flags: { depth: 2, entry: 'flag' },
+	variables: { depth: 2, entry: 'variable' },
+	languagePatterns: { depth: 3, entry: 'pattern' }
+};
+
+/** Collections of the repository configuration */
+const WORKSPACE_CONFIG_COLLECTIONS: ConfigCollections = {
+	subscribe: { depth: 2, entry: 'subscription' },
+	sources: { depth: 2, entry: 'source' },
+	exclude: { depth: 2, entry: 'exclusion' }
+};
+
+/**
+ * A problem found while validating the remote configuration
+ */
+interface ConfigDiagnostic {
+	/** JSON pointer of the offending value, e.g. /sources/3/url */
+	path: string;
+	message: string;
+	severity: 'error' | 'warning' | 'info';
+}
+
+/** JSON Schemas shipped in schemas/, next to dist/; they may reference each other by file name */
+const SCHEMA_FILES = ['remote-config.schema.json', 'workspace-config.schema.json'];
+
+/** Validator holding the JSON Schemas, loaded on first use */
+let schemaValidator: Ajv | undefined;
+
+/** Hashes of the remote configurations whose diagnostics were reported, so they're reported once */
+const reportedConfigHashes = new Set<string>();
+
+/** Output channel for diagnostics, created on first use */
+let outputChannel: vscode.OutputChannel | undefined;
+
+/** Status bar item shown while the remote configuration enforces flags or requires sources */
+let policyStatusItem: vscode.StatusBarItem | undefined;
+
+/** DER prefix of an Ed25519 public key in SubjectPublicKeyInfo format; the 32 raw key bytes follow it */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * A remote configuration and the URL it was fetched from
+ */
+interface RemoteConfigLayer {
+	url: string;
+	config: RemoteConfig;
+	/** Set if the configuration was served from the offline cache */
+	staleSince?: string;
 }
 
-/** In-memory cache for remote configuration */
+/** Origin of sources configured in instructionSync.sources */
+const SETTINGS_ORIGIN = 'settings';
+
+/** In-memory cache for remote configuration (the merged layers) */
 let remoteConfigCache: { config: RemoteConfig; timestamp: number } | null = null;
 
 /** Tracks per-sync-session state (e.g. "Yes to All") */
 interface SyncSession {
 	confirmAll: boolean;
+	/** Template variables per workspace folder URI, built once per session */
+	templateVariables?: Map<string, Record<string, string>>;
+}
+
+/**
+ * Provenance of a single instruction source that contributed to a synced file
+ */
+interface LockSourceEntry {
+	language: string;
+	url: string;
+	/** SHA-256 of the content fetched from the source */
+	sha256: string;
+	etag?: string;
+	lastModified?: string;
+	/** Git ref the source was fetched at */
+	ref?: string;
+	/** Files included through include directives */
+	includes?: string[];
+}
+
+/**
+ * Provenance record for a single synced instruction file
+ */
+interface LockEntry {
+	/** Destination path relative to the workspace folder */
+	destination: string;
+	/** Managed block id, if the sources only own a marked block of the destination */
+	block?: string;
+	/** SHA-256 of the content last synced from upstream, used to detect local edits */
+	sha256: string;
+	/** ISO timestamp of the sync that wrote this content */
+	syncedAt: string;
+	/** Sources the content was composed from, in composition order */
+	sources: LockSourceEntry[];
+	/** For directory sources: SHA-256 of every mirrored file, keyed by its path relative to the destination folder */
+	files?: Record<string, string>;
 }
 
+/**
+ * Contents of the sync lock file, keyed by destination path (plus `#<block>` for managed blocks)
+ */
+interface LockFile {
+	version: number;
+	entries: Record<string, LockEntry>;
+}
+
+/** Lock file location relative to the workspace folder; meant to be committed */
+const LOCK_FILE_PATH = '.github/.instruction-sync.lock.json';
+const LOCK_FILE_VERSION = 1;
+
 /**
  * Global sync lock to prevent concurrent performSync calls from
  * showing interleaved confirmation dialogs. If a sync is already
@@ -54,16 +305,44 @@ interface SyncSession {
  */
 let activeSyncPromise: Promise<void> | null = null;
 
+/** Extension context, set on activation; used for workspace state */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/** Global state key of the time of the last automatic check for newer versions of pinned sources */
+const UPDATES_CHECKED_AT_KEY = 'instructionSync.updatesCheckedAt';
+
+/** Minimum time between automatic update checks (the command always checks) */
+const UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** URI scheme of the incoming content shown in diff previews */
+const PENDING_SCHEME = 'instruction-sync-pending';
+
+/**
+ * A file change previewed in a diff editor, waiting to be accepted or rejected
+ */
+interface PendingChange {
+	/** Content of the file after the change */
+	content: string;
+	resolve: (accepted: boolean) => void;
+}
+
+/** Previewed changes, by the URI of their incoming content */
+const pendingChanges = new Map<string, PendingChange>();
+
+/** Number of diff previews opened, making each preview's URI unique */
+let pendingChangeCount = 0;
+
 /**
  * Gets the destination path for the instructions file from source configuration
  */
 function getDestinationPath(source?: InstructionSource): { folder: string; file: string; fullPath: string } {
-	const folder = source?.destinationFolder ?? '.github';
-	const file = source?.destinationFile ?? 'copilot-instructions.md';
+	const scoped = source !== undefined && isPathScoped(source);
+	const folder = source?.destinationFolder ?? (scoped ? '.github/instructions' : '.github');
+	const file = source?.destinationFile ?? (scoped ? `${getScopedInstructionsName(source)}.instructions.md` : 'copilot-instructions.md');
 	return {
 		folder,
 		file,
-		fullPath: `${folder}/${file}`
+		fullPath: folder ? `${folder}/${file}` : file
 	};
 }
 
@@ -75,7 +354,7 @@ function isGitHubUrl(url: string): { isGitHub: boolean; isEnterprise: boolean }
 		const parsedUrl = new URL(url);
 		const hostname = parsedUrl.hostname.toLowerCase();
 
-		if (hostname === 'github.com' || hostname === 'raw.githubusercontent.com') {
+		if (hostname === 'github.com' || hostname === 'raw.githubusercontent.com' || hostname === 'api.github.com') {
 			return { isGitHub: true, isEnterprise: false };
 		}
 
@@ -113,6 +392,50 @@ function isAzureDevOpsUrl(url: string): boolean {
 	}
 }
 
+/**
+ * Checks if a URL is a GitLab.com or self-managed GitLab URL
+ */
+function isGitLabUrl(url: string): boolean {
+	try {
+		const parsedUrl = new URL(url);
+		const hostname = parsedUrl.hostname.toLowerCase();
+
+		if (hostname === 'gitlab.com' || hostname.startsWith('gitlab.')) {
+			return true;
+		}
+
+		// Self-managed GitLab on other host names - check for its web and API path patterns
+		return /\/-\/(raw|blob|tree)\//.test(parsedUrl.pathname) || parsedUrl.pathname.includes('/api/v4/projects/');
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Checks if a URL is a Bitbucket Cloud or Bitbucket Server / Data Center URL
+ */
+function isBitbucketUrl(url: string): { isBitbucket: boolean; isServer: boolean } {
+	try {
+		const parsedUrl = new URL(url);
+		const hostname = parsedUrl.hostname.toLowerCase();
+
+		if (hostname === 'bitbucket.org' || hostname === 'api.bitbucket.org') {
+			return { isBitbucket: true, isServer: false };
+		}
+
+		// Bitbucket Server - check for its REST API and web path patterns
+		if (hostname.startsWith('bitbucket.')
+			|| /\/rest\/api\/(1\.0|latest)\/projects\//.test(parsedUrl.pathname)
+			|| /\/projects\/[^/]+\/repos\/[^/]+\/(raw|browse)(\/|$)/.test(parsedUrl.pathname)) {
+			return { isBitbucket: true, isServer: true };
+		}
+
+		return { isBitbucket: false, isServer: false };
+	} catch {
+		return { isBitbucket: false, isServer: false };
+	}
+}
+
 /**
  * Gets GitHub authentication token if available
  */
@@ -190,6 +513,211 @@ async function getAzureDevOpsToken(): Promise<string | null> {
 	}
 }
 
+/** How credentials stored for a host are sent */
+type CredentialType = 'bearer' | 'basic' | 'header';
+
+/**
+ * Credentials for URLs matching a host pattern, stored as JSON in SecretStorage
+ */
+interface HostCredential {
+	type: CredentialType;
+	/** Bearer token, basic auth password or header value */
+	secret: string;
+	/** User name for basic auth */
+	username?: string;
+	/** Header name for 'header' credentials (e.g. X-JFrog-Art-Api) */
+	header?: string;
+}
+
+/** SecretStorage key prefix; the host pattern follows it */
+const CREDENTIAL_KEY_PREFIX = 'instructionSync.credentials:';
+
+/** Headers that may carry secrets, so they can't be set in a source's `headers` */
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+/**
+ * Checks whether a URL matches a host pattern such as `artifactory.corp.com`,
+ * `*.corp.com`, `wiki.corp.com:8443` or `corp.com/team/docs` (host plus path prefix)
+ */
+function matchesHostPattern(url: string, pattern: string): boolean {
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(url);
+	} catch {
+		return false;
+	}
+
+	const slash = pattern.indexOf('/');
+	const hostPattern = (slash === -1 ? pattern : pattern.slice(0, slash)).toLowerCase();
+	const pathPrefix = slash === -1 ? '' : pattern.slice(slash).replace(/\/+$/, '');
+	const [hostname, port] = hostPattern.split(':');
+
+	if (port !== undefined && port !== parsedUrl.port) {
+		return false;
+	}
+	const host = parsedUrl.hostname.toLowerCase();
+	const hostMatches = hostname.startsWith('*.')
+		? host.endsWith(hostname.slice(1))
+		: host === hostname;
+	if (!hostMatches) {
+		return false;
+	}
+	return pathPrefix === '' || parsedUrl.pathname === pathPrefix || parsedUrl.pathname.startsWith(`${pathPrefix}/`);
+}
+
+/**
+ * Finds the most specific host pattern matching a URL: longer path prefixes win,
+ * then exact hosts over wildcards
+ */
+function findHostPattern(url: string, patterns: string[]): string | undefined {
+	const specificity = (pattern: string) => {
+		const slash = pattern.indexOf('/');
+		const host = slash === -1 ? pattern : pattern.slice(0, slash);
+		return [slash === -1 ? 0 : pattern.length - slash, host.startsWith('*.') ? 0 : 1, host.length];
+	};
+	return patterns
+		.filter(pattern => matchesHostPattern(url, pattern))
+		.sort((a, b) => {
+			const [specA, specB] = [specificity(a), specificity(b)];
+			return specB[0] - specA[0] || specB[1] - specA[1] || specB[2] - specA[2];
+		})[0];
+}
+
+/**
+ * Builds the request headers for stored credentials
+ */
+function getCredentialHeaders(credential: HostCredential): Record<string, string> {
+	switch (credential.type) {
+		case 'basic':
+			return { 'Authorization': `Basic ${Buffer.from(`${credential.username ?? ''}:${credential.secret}`).toString('base64')}` };
+		case 'header':
+			return { [credential.header || 'Authorization']: credential.secret };
+		default:
+			return { 'Authorization': `Bearer ${credential.secret}` };
+	}
+}
+
+/**
+ * Checks that a source's headers don't contain credentials
+ * @throws Error naming the header that must be stored as a credential instead
+ */
+function validateSourceHeaders(headers: Record<string, string>): void {
+	const secretHeader = Object.keys(headers).find(name => SECRET_HEADERS.includes(name.toLowerCase()));
+	if (secretHeader) {
+		throw new Error(`The ${secretHeader} header can't be set in a source's headers. Store it with the "Set Credentials for Host" command instead.`);
+	}
+}
+
+/**
+ * Gets the credentials stored for the most specific host pattern matching a URL
+ */
+async function getHostCredential(url: string): Promise<HostCredential | undefined> {
+	const secrets = extensionContext?.secrets;
+	if (!secrets) {
+		return undefined;
+	}
+
+	const patterns = (await secrets.keys())
+		.filter(key => key.startsWith(CREDENTIAL_KEY_PREFIX))
+		.map(key => key.slice(CREDENTIAL_KEY_PREFIX.length));
+	const pattern = findHostPattern(url, patterns);
+	if (!pattern) {
+		return undefined;
+	}
+
+	const stored = await secrets.get(CREDENTIAL_KEY_PREFIX + pattern);
+	try {
+		return stored ? JSON.parse(stored) as HostCredential : undefined;
+	} catch {
+		console.log(`Ignoring unreadable credentials for ${pattern}`);
+		return undefined;
+	}
+}
+
+/**
+ * Prompts for a host pattern and credentials and stores them in SecretStorage
+ */
+async function setHostCredentials(): Promise<void> {
+	const pattern = await vscode.window.showInputBox({
+		prompt: 'Enter the host the credentials are used for (e.g. artifactory.corp.com, *.corp.com or wiki.corp.com/team)',
+		placeHolder: 'Host pattern',
+		validateInput: (value) => /^(\*\.)?[\w.-]+(:\d+)?(\/\S*)?$/.test(value.trim()) ? null : 'Please enter a host name, optionally with a *. prefix, port and path'
+	});
+	if (!pattern) {
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		[
+			{ label: 'Bearer token', type: 'bearer' as const },
+			{ label: 'Basic authentication', description: 'User name and password', type: 'basic' as const },
+			{ label: 'Custom header', description: 'e.g. X-JFrog-Art-Api or PRIVATE-TOKEN', type: 'header' as const }
+		],
+		{ placeHolder: `How should requests to ${pattern} authenticate?` }
+	);
+	if (!picked) {
+		return;
+	}
+
+	const credential: HostCredential = { type: picked.type, secret: '' };
+	if (picked.type === 'basic') {
+		credential.username = await vscode.window.showInputBox({ prompt: 'Enter the user name', ignoreFocusOut: true });
+		if (!credential.username) {
+			return;
+		}
+	} else if (picked.type === 'header') {
+		credential.header = await vscode.window.showInputBox({
+			prompt: 'Enter the header name',
+			placeHolder: 'X-API-Key',
+			ignoreFocusOut: true,
+			validateInput: (value) => /^[\w-]+$/.test(value) ? null : 'Please enter a valid header name'
+		});
+		if (!credential.header) {
+			return;
+		}
+	}
+
+	const secret = await vscode.window.showInputBox({
+		prompt: picked.type === 'basic' ? 'Enter the password' : picked.type === 'header' ? `Enter the ${credential.header} value` : 'Enter the token',
+		password: true,
+		ignoreFocusOut: true
+	});
+	if (!secret) {
+		return;
+	}
+	credential.secret = secret;
+
+	await extensionContext?.secrets.store(CREDENTIAL_KEY_PREFIX + pattern.trim(), JSON.stringify(credential));
+	vscode.window.showInformationMessage(`Instruction Sync: Credentials for ${pattern.trim()} saved`);
+}
+
+/**
+ * Lets the user pick stored host credentials to remove from SecretStorage
+ */
+async function clearHostCredentials(): Promise<void> {
+	const secrets = extensionContext?.secrets;
+	const patterns = secrets
+		? (await secrets.keys()).filter(key => key.startsWith(CREDENTIAL_KEY_PREFIX)).map(key => key.slice(CREDENTIAL_KEY_PREFIX.length))
+		: [];
+	if (!secrets || patterns.length === 0) {
+		vscode.window.showInformationMessage('Instruction Sync: No credentials stored');
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(patterns.sort(), {
+		placeHolder: 'Select the hosts whose credentials should be removed',
+		canPickMany: true
+	});
+	if (!picked || picked.length === 0) {
+		return;
+	}
+
+	for (const pattern of picked) {
+		await secrets.delete(CREDENTIAL_KEY_PREFIX + pattern);
+	}
+	vscode.window.showInformationMessage(`Instruction Sync: Credentials removed for ${picked.join(', ')}`);
+}
+
 /**
  * Checks if the source is a local file path
  */
@@ -275,233 +803,3769 @@ function isValidInstructionContent(content: string, source: string): { valid: bo
 }
 
 /**
- * Options for content fetching
+ * Gets the REST API base URL for a GitHub host
  */
-interface FetchContentOptions {
-	/** If true, validates content as Markdown instructions (default: true) */
-	validateAsInstructions?: boolean;
+function getGitHubApiBase(url: URL): string {
+	const hostname = url.hostname.toLowerCase();
+	if (hostname === 'github.com' || hostname === 'raw.githubusercontent.com' || hostname === 'api.github.com') {
+		return 'https://api.github.com';
+	}
+	if (hostname.endsWith('.ghe.com')) {
+		return hostname.startsWith('api.') ? url.origin : `https://api.${hostname}`;
+	}
+	return `${url.origin}/api/v3`;
 }
 
 /**
- * Fetches content from a URL or local file path with authentication support
- * for GitHub and Azure DevOps sources.
+ * Gets the Azure DevOps version type of a ref: a full commit SHA, a tag
+ * (`tags/...`, `refs/tags/...` or a version number such as v1.2.0) or a branch
  */
-async function fetchContent(source: string, options: FetchContentOptions = {}): Promise<string> {
-	const { validateAsInstructions = true } = options;
+function getAzureDevOpsVersion(ref: string): { version: string; versionType: 'commit' | 'tag' | 'branch' } {
+	if (/^[0-9a-f]{40}$/i.test(ref)) {
+		return { version: ref, versionType: 'commit' };
+	}
+	const tag = /^(?:refs\/)?tags\/(.+)$/.exec(ref);
+	if (tag) {
+		return { version: tag[1], versionType: 'tag' };
+	}
+	const branch = /^(?:refs\/)?heads\/(.+)$/.exec(ref);
+	if (branch) {
+		return { version: branch[1], versionType: 'branch' };
+	}
+	return { version: ref, versionType: parseSemVer(ref) ? 'tag' : 'branch' };
+}
 
-	// Handle local file paths
-	if (isLocalPath(source)) {
-		try {
-			const uri = localPathToUri(source);
-			const content = await vscode.workspace.fs.readFile(uri);
-			return Buffer.from(content).toString('utf8');
-		} catch (error) {
-			throw new Error(`Failed to read local file ${source}: ${error instanceof Error ? error.message : String(error)}`);
-		}
+/**
+ * Rewrites a GitHub, Azure DevOps, GitLab or Bitbucket URL to fetch content at a git ref:
+ * the ref segment of raw, blob and tree URLs, the `ref` parameter of the GitHub contents API
+ * and GitLab API, the version descriptor of the Azure DevOps items API, or Bitbucket Server's
+ * `at` parameter. Other URLs are returned unchanged.
+ */
+function applyRef(url: string, ref?: string): string {
+	if (!ref || isLocalPath(url)) {
+		return url;
 	}
 
-	// Handle remote URLs
-	const { isGitHub, isEnterprise } = isGitHubUrl(source);
-	const isAzureDevOps = isAzureDevOpsUrl(source);
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(url);
+	} catch {
+		return url;
+	}
 
-	const headers: Record<string, string> = {};
+	if (isGitHubUrl(url).isGitHub) {
+		const segments = parsedUrl.pathname.split('/');
+		const encodedRef = ref.split('/').map(encodeURIComponent).join('/');
+		if (/\/repos\/[^/]+\/[^/]+\/contents\//.test(parsedUrl.pathname)) {
+			parsedUrl.searchParams.set('ref', ref);
+		} else if (parsedUrl.hostname.toLowerCase() === 'raw.githubusercontent.com' && segments.length > 3) {
+			// /{owner}/{repo}/{ref}/{path}
+			segments[3] = encodedRef;
+			parsedUrl.pathname = segments.join('/');
+		} else if (['blob', 'tree', 'raw'].includes(segments[3]) && segments.length > 4) {
+			// /{owner}/{repo}/blob/{ref}/{path}
+			segments[4] = encodedRef;
+			parsedUrl.pathname = segments.join('/');
+		}
+		return parsedUrl.toString();
+	}
 
-	if (isGitHub) {
-		headers['Accept'] = 'application/vnd.github.v3.raw';
-		const token = await getGitHubToken(isEnterprise);
-		if (token) {
-			headers['Authorization'] = `Bearer ${token}`;
+	if (isAzureDevOpsUrl(url) && parsedUrl.pathname.includes('/_apis/git/repositories/')) {
+		const { version, versionType } = getAzureDevOpsVersion(ref);
+		parsedUrl.searchParams.set('versionDescriptor.version', version);
+		parsedUrl.searchParams.set('versionDescriptor.versionType', versionType);
+		return parsedUrl.toString();
+	}
+
+	const encodedRef = encodeURIComponent(ref);
+	if (isGitLabUrl(url)) {
+		if (parsedUrl.pathname.includes('/api/v4/projects/')) {
+			parsedUrl.searchParams.set('ref', ref);
+		} else {
+			// /{project}/-/raw/{ref}/{path}
+			parsedUrl.pathname = parsedUrl.pathname.replace(/\/-\/(raw|blob|tree)\/[^/]+/, `/-/$1/${encodedRef}`);
 		}
-	} else if (isAzureDevOps) {
-		headers['Accept'] = 'text/plain';
-		const token = await getAzureDevOpsToken();
-		if (token) {
-			headers['Authorization'] = `Bearer ${token}`;
+		return parsedUrl.toString();
+	}
+
+	const { isBitbucket, isServer } = isBitbucketUrl(url);
+	if (isBitbucket) {
+		if (isServer) {
+			parsedUrl.searchParams.set('at', ref);
+		} else {
+			// /{workspace}/{repo}/src/{ref}/{path} or /2.0/repositories/{workspace}/{repo}/src/{ref}/{path}
+			parsedUrl.pathname = parsedUrl.pathname.replace(/^((?:\/2\.0\/repositories)?\/[^/]+\/[^/]+\/(?:raw|src))\/[^/]+/, `$1/${encodedRef}`);
 		}
+		return parsedUrl.toString();
+	}
+
+	return url;
+}
+
+/**
+ * A file or folder in a GitLab project
+ */
+interface GitLabLocation {
+	/** REST API base URL, e.g. https://gitlab.com/api/v4 */
+	apiBase: string;
+	/** Full project path (group/subgroup/project) or numeric project ID */
+	project: string;
+	ref?: string;
+	path: string;
+	type: 'file' | 'directory';
+}
+
+/**
+ * A file or folder in a Bitbucket repository
+ */
+interface BitbucketLocation {
+	/** REST API base URL: https://api.bitbucket.org/2.0, or {server}/rest/api/1.0 */
+	apiBase: string;
+	isServer: boolean;
+	/** Workspace (Bitbucket Cloud) or project key (Bitbucket Server) */
+	project: string;
+	repo: string;
+	ref?: string;
+	path: string;
+	type: 'file' | 'directory';
+}
+
+/**
+ * Encodes the segments of a repository path for use in a URL path
+ */
+function encodePath(filePath: string): string {
+	return filePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Parses a GitLab web URL (/{project}/-/raw|blob|tree/{ref}/{path}) or a repository
+ * files/tree API URL into the project coordinates. Refs in web URLs must not contain slashes.
+ */
+function parseGitLabUrl(url: string): GitLabLocation | null {
+	if (!isGitLabUrl(url)) {
+		return null;
 	}
 
-	const response = await fetch(source, { headers });
-	if (!response.ok) {
-		throw new Error(`Failed to fetch from ${source}: ${response.status} ${response.statusText}`);
+	const parsedUrl = new URL(url);
+	const api = /^(.*?\/api\/v4)\/projects\/([^/]+)\/repository\/(?:files\/([^/]+)(?:\/raw)?|(tree))\/?$/.exec(parsedUrl.pathname);
+	if (api) {
+		return {
+			apiBase: parsedUrl.origin + api[1],
+			project: decodeURIComponent(api[2]),
+			ref: parsedUrl.searchParams.get('ref') ?? undefined,
+			path: api[3] ? decodeURIComponent(api[3]) : parsedUrl.searchParams.get('path') ?? '',
+			type: api[4] ? 'directory' : 'file'
+		};
 	}
 
-	const content = await response.text();
+	const web = /^\/(.+?)\/-\/(raw|blob|tree)\/([^/]+)(?:\/(.*?))?\/?$/.exec(parsedUrl.pathname);
+	if (web) {
+		return {
+			apiBase: `${parsedUrl.origin}/api/v4`,
+			project: decodeURIComponent(web[1]),
+			ref: decodeURIComponent(web[3]),
+			path: web[4] ? decodeURIComponent(web[4]) : '',
+			type: web[2] === 'tree' ? 'directory' : 'file'
+		};
+	}
 
-	// Validate the content to ensure it's not an error page (only for instruction files)
-	if (validateAsInstructions) {
-		const validation = isValidInstructionContent(content, source);
-		if (!validation.valid) {
-			throw new Error(`Invalid content from ${source}: ${validation.reason}`);
+	return null;
+}
+
+/**
+ * Parses a Bitbucket Cloud URL (/{workspace}/{repo}/raw|src/{ref}/{path} or the 2.0 src API)
+ * or a Bitbucket Server URL (/projects/{key}/repos/{repo}/raw|browse/{path}?at={ref} or the
+ * REST API) into the repository coordinates. Paths ending in a slash and Bitbucket Server
+ * `files` API URLs are folders.
+ */
+function parseBitbucketUrl(url: string): BitbucketLocation | null {
+	const { isBitbucket, isServer } = isBitbucketUrl(url);
+	if (!isBitbucket) {
+		return null;
+	}
+
+	const parsedUrl = new URL(url);
+	const toType = (filePath: string | undefined, folderKind = false): 'file' | 'directory' =>
+		folderKind || !filePath || filePath.endsWith('/') ? 'directory' : 'file';
+	const toPath = (filePath: string | undefined) => filePath ? decodeURIComponent(filePath).replace(/\/+$/, '') : '';
+
+	if (!isServer) {
+		const match = parsedUrl.hostname.toLowerCase() === 'api.bitbucket.org'
+			? /^\/2\.0\/repositories\/([^/]+)\/([^/]+)\/src\/([^/]+)(?:\/(.*))?$/.exec(parsedUrl.pathname)
+			: /^\/([^/]+)\/([^/]+)\/(?:raw|src)\/([^/]+)(?:\/(.*))?$/.exec(parsedUrl.pathname);
+		if (!match) {
+			return null;
+		}
+		return {
+			apiBase: 'https://api.bitbucket.org/2.0',
+			isServer,
+			project: decodeURIComponent(match[1]),
+			repo: decodeURIComponent(match[2]),
+			ref: decodeURIComponent(match[3]),
+			path: toPath(match[4]),
+			type: toType(match[4])
+		};
+	}
+
+	const match = /^(.*?)(\/rest\/api\/(?:1\.0|latest))?\/projects\/([^/]+)\/repos\/([^/]+)\/(raw|browse|files)(?:\/(.*))?$/.exec(parsedUrl.pathname);
+	if (!match) {
+		return null;
+	}
+	return {
+		apiBase: `${parsedUrl.origin}${match[1]}/rest/api/1.0`,
+		isServer,
+		project: decodeURIComponent(match[3]),
+		repo: decodeURIComponent(match[4]),
+		ref: parsedUrl.searchParams.get('at') ?? undefined,
+		path: toPath(match[6]),
+		type: toType(match[6], match[5] === 'files' || (match[5] === 'browse' && !match[6]))
+	};
+}
+
+/**
+ * Builds the GitLab API URL returning a file's raw content
+ */
+function getGitLabFileUrl(location: GitLabLocation, filePath: string = location.path): string {
+	const fileUrl = `${location.apiBase}/projects/${encodeURIComponent(location.project)}/repository/files/${encodeURIComponent(filePath)}/raw`;
+	return location.ref ? `${fileUrl}?ref=${encodeURIComponent(location.ref)}` : fileUrl;
+}
+
+/**
+ * Builds the Bitbucket API URL returning a file's raw content
+ */
+function getBitbucketFileUrl(location: BitbucketLocation, filePath: string = location.path): string {
+	const { apiBase, project, repo, ref } = location;
+	if (!location.isServer) {
+		return `${apiBase}/repositories/${encodeURIComponent(project)}/${encodeURIComponent(repo)}/src/${encodeURIComponent(ref ?? 'HEAD')}/${encodePath(filePath)}`;
+	}
+	const fileUrl = `${apiBase}/projects/${encodeURIComponent(project)}/repos/${encodeURIComponent(repo)}/raw/${encodePath(filePath)}`;
+	return ref ? `${fileUrl}?at=${encodeURIComponent(ref)}` : fileUrl;
+}
+
+/**
+ * Rewrites GitLab and Bitbucket file URLs to their raw content API, which, unlike the
+ * web endpoints, accepts access tokens. Other URLs are returned unchanged.
+ */
+function getApiFileUrl(url: string): string {
+	const gitLab = parseGitLabUrl(url);
+	if (gitLab?.type === 'file') {
+		return getGitLabFileUrl(gitLab);
+	}
+	const bitbucket = parseBitbucketUrl(url);
+	if (bitbucket?.type === 'file') {
+		return getBitbucketFileUrl(bitbucket);
+	}
+	return url;
+}
+
+/** Azure DevOps web `version` parameter prefixes (GBmain, GTv1.0.0, GC<sha>) */
+const AZURE_DEVOPS_VERSION_TYPES: Record<string, 'branch' | 'tag' | 'commit'> = { B: 'branch', T: 'tag', C: 'commit' };
+
+/**
+ * Converts a URL copied from a provider's web UI into the URL its content is fetched from:
+ * GitHub blob and raw pages become raw.githubusercontent.com URLs (the contents API on
+ * GitHub Enterprise), Azure DevOps `_git` pages with a `path` parameter become items API URLs,
+ * and GitLab and Bitbucket pages the raw file API (see getApiFileUrl).
+ * Other URLs, including GitHub tree URLs of directory sources, are returned unchanged.
+ */
+function normalizeSourceUrl(url: string): string {
+	if (isLocalPath(url)) {
+		return url;
+	}
+
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(url);
+	} catch {
+		return url;
+	}
+	const hostname = parsedUrl.hostname.toLowerCase();
+
+	const { isGitHub, isEnterprise } = isGitHubUrl(url);
+	if (isGitHub) {
+		// /{owner}/{repo}/blob/{ref}/{path}
+		const match = /^\/([^/]+)\/([^/]+)\/(?:blob|raw)\/([^/]+)\/(.+)$/.exec(parsedUrl.pathname);
+		if (!match || hostname === 'raw.githubusercontent.com' || hostname.startsWith('api.')) {
+			return url;
+		}
+		const [, owner, repo, ref, filePath] = match;
+		return isEnterprise
+			? `${getGitHubApiBase(parsedUrl)}/repos/${owner}/${repo}/contents/${filePath}?ref=${ref}`
+			: `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${filePath}`;
+	}
+
+	if (isAzureDevOpsUrl(url)) {
+		// {collection}/{project}/_git/{repo}?path=/file.md&version=GBmain
+		const match = /^(.*)\/_git\/([^/]+)\/?$/.exec(parsedUrl.pathname);
+		const itemPath = parsedUrl.searchParams.get('path');
+		if (!match || !itemPath) {
+			return url;
+		}
+		let [, prefix] = match;
+		const repo = match[2];
+		// {org}/_git/{repo} addresses the repository named like its project
+		const organizationSegments = hostname === 'dev.azure.com' ? 1 : 0;
+		if (prefix.split('/').filter(segment => segment.length > 0).length === organizationSegments) {
+			prefix += `/${repo}`;
+		}
+
+		const itemsUrl = new URL(`${parsedUrl.origin}${prefix}/_apis/git/repositories/${repo}/items`);
+		itemsUrl.searchParams.set('path', itemPath);
+		const version = /^G([BTC])(.+)$/.exec(parsedUrl.searchParams.get('version') ?? '');
+		if (version) {
+			itemsUrl.searchParams.set('versionDescriptor.version', version[2]);
+			itemsUrl.searchParams.set('versionDescriptor.versionType', AZURE_DEVOPS_VERSION_TYPES[version[1]]);
+		}
+		itemsUrl.searchParams.set('api-version', '7.0');
+		return itemsUrl.toString();
+	}
+
+	return getApiFileUrl(url);
+}
+
+/**
+ * Describes where a URL entered by the user is fetched from, if it is normalized to another URL
+ */
+function describeResolvedUrl(url: string): string | undefined {
+	const resolved = normalizeSourceUrl(url.trim());
+	return resolved !== url.trim() ? `Fetched from ${resolved}` : undefined;
+}
+
+/**
+ * Shows where a URL being entered is fetched from below the input box
+ */
+function validateResolvedUrl(url: string): vscode.InputBoxValidationMessage | null {
+	const description = describeResolvedUrl(url);
+	return description ? { message: description, severity: vscode.InputBoxValidationSeverity.Info } : null;
+}
+
+/**
+ * Gets the URL a source's content is fetched from: its normalized URL at its pinned ref
+ */
+function resolveSourceUrl(source: InstructionSource): string {
+	return applyRef(normalizeSourceUrl(source.url), source.ref);
+}
+
+/**
+ * Options for content fetching
+ */
+interface FetchContentOptions {
+	/** If true, validates content as Markdown instructions (default: true) */
+	validateAsInstructions?: boolean;
+	/** Accept header overriding the provider default (e.g. for JSON API responses) */
+	accept?: string;
+	/** Git ref to fetch GitHub and Azure DevOps URLs at (see applyRef) */
+	ref?: string;
+	/** Additional request headers from the source configuration */
+	headers?: Record<string, string>;
+}
+
+/**
+ * Fetched content along with the HTTP validators returned by the server
+ */
+interface FetchedContent {
+	content: string;
+	etag?: string;
+	lastModified?: string;
+	/** True if the server answered 304 and the content came from the HTTP cache */
+	notModified?: boolean;
+	/** Set when the server couldn't be reached: ISO timestamp of when the cached copy was last fetched */
+	staleSince?: string;
+}
+
+/**
+ * Thrown when a remote source can't be reached (network failure or an unavailable gateway),
+ * as opposed to the server rejecting the request
+ */
+class ConnectivityError extends Error { }
+
+/**
+ * Thrown when the rate limit of a host is exhausted
+ */
+class RateLimitError extends Error { }
+
+/**
+ * Thrown when a server answers with a 5xx status, such as a gateway whose origin is unreachable
+ */
+class ServerUnavailableError extends Error { }
+
+/**
+ * Error codes of transport failures meaning the host can't be reached right now, as opposed to
+ * a misconfiguration such as a malformed URL or an untrusted certificate
+ */
+const NETWORK_ERROR_CODES = [
+	'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EHOSTUNREACH', 'EHOSTDOWN',
+	'ENETUNREACH', 'ENETDOWN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT',
+	'UND_ERR_SOCKET', 'UND_ERR_CLOSED'
+];
+
+/**
+ * Checks whether a request failed because the host couldn't be reached: a network error or
+ * a timeout, possibly wrapped as the cause of fetch's "fetch failed" error
+ */
+function isNetworkError(error: unknown): boolean {
+	for (let current = error; current instanceof Error; current = current.cause) {
+		const code = (current as NodeJS.ErrnoException).code;
+		if (current.name === 'TimeoutError' || (code !== undefined && NETWORK_ERROR_CODES.includes(code))) {
+			return true;
+		}
+		// Connecting to several addresses fails with all their errors
+		if (current instanceof AggregateError && current.errors.some(isNetworkError)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * ISO timestamps of when hosts became unreachable, by host; cleared by the next successful download
+ * from the host. Tracked per host, since e.g. internal hosts behind a VPN can be down while others answer.
+ */
+const offlineHosts = new Map<string, string>();
+
+/**
+ * Marks a host as unreachable
+ * @returns True if the host was reachable before
+ */
+function markHostOffline(host: string): boolean {
+	if (offlineHosts.has(host)) {
+		return false;
+	}
+	offlineHosts.set(host, new Date().toISOString());
+	return true;
+}
+
+/**
+ * Marks a host as reachable again
+ * @returns True if the host was unreachable before
+ */
+function markHostOnline(host: string): boolean {
+	return offlineHosts.delete(host);
+}
+
+/**
+ * Records that a remote source couldn't be reached. Only the first failure of each host is shown;
+ * later ones are logged until a download from the host succeeds again.
+ */
+function reportOffline(source: string, reason: string, cached?: CachedResponse): ConnectivityError {
+	console.log(`Instruction Sync: Could not reach ${source}: ${reason}`);
+	const host = new URL(source).host;
+	if (markHostOffline(host)) {
+		const cacheEnabled = vscode.workspace.getConfiguration('instructionSync').get<boolean>('httpCache', true);
+		const fallback = cached
+			? `Using cached copies (stale since ${formatTimestamp(cached.fetchedAt)}) until the connection is back.`
+			: cacheEnabled
+				? 'Sources that were never downloaded can\'t be synced until the connection is back.'
+				: 'Enable instructionSync.httpCache to keep copies of downloaded sources for offline use.';
+		vscode.window.showWarningMessage(`Instruction Sync: Working offline from ${host}, could not reach ${source} (${reason}). ${fallback}`);
+	}
+	return new ConnectivityError(`Could not reach ${source}: ${reason}`);
+}
+
+/**
+ * Records that a download from a source succeeded, ending offline mode for its host
+ */
+function reportOnline(source: string): void {
+	const host = new URL(source).host;
+	if (markHostOnline(host)) {
+		vscode.window.showInformationMessage(`Instruction Sync: Connection to ${host} restored, instructions are synced from it again`);
+	}
+}
+
+/**
+ * Proxy and TLS settings that determine how remote requests are sent,
+ * taken from VS Code's http.* settings, the proxy environment variables
+ * and instructionSync.caCertificates
+ */
+interface NetworkSettings {
+	proxy?: string;
+	/** Value of the Proxy-Authorization header */
+	proxyAuthorization?: string;
+	/** Hosts (or domain suffixes) that are reached without the proxy */
+	noProxy: string[];
+	strictSSL: boolean;
+	systemCertificates: boolean;
+	/** PEM certificates or paths to PEM files trusted in addition to the built-in ones */
+	caCertificates: string[];
+}
+
+/** Dispatchers built for the current network settings; rebuilt when the settings change */
+let dispatcherCache: { key: string; direct: Dispatcher; proxied?: Dispatcher } | undefined;
+
+/**
+ * Reads the network settings
+ */
+function getNetworkSettings(): NetworkSettings {
+	const http = vscode.workspace.getConfiguration('http');
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const env = process.env;
+	return {
+		proxy: http.get<string>('proxy') || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || undefined,
+		proxyAuthorization: http.get<string | null>('proxyAuthorization') || undefined,
+		noProxy: [...http.get<string[]>('noProxy', []), ...(env.NO_PROXY ?? env.no_proxy ?? '').split(',')]
+			.map(entry => entry.trim())
+			.filter(entry => entry.length > 0),
+		strictSSL: http.get<boolean>('proxyStrictSSL', true),
+		systemCertificates: http.get<boolean>('systemCertificates', true),
+		caCertificates: config.get<string[]>('caCertificates', [])
+	};
+}
+
+/**
+ * Checks whether a URL is excluded from the proxy by a no-proxy list.
+ * Entries match the host or any subdomain (`corp.com`, `.corp.com`), optionally with a port; `*` matches everything.
+ */
+function isProxyBypassed(url: string, noProxy: string[]): boolean {
+	const { hostname, port } = new URL(url);
+	const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+	return noProxy.some(entry => {
+		if (entry === '*') {
+			return true;
+		}
+		const match = /^\.?(.+?)(?::(\d+))?$/.exec(entry.toLowerCase().replace(/^\*\./, '.'));
+		if (!match || (match[2] && match[2] !== port)) {
+			return false;
+		}
+		return host === match[1] || host.endsWith(`.${match[1]}`);
+	});
+}
+
+/**
+ * Loads the certificate authorities to trust, or undefined to use Node's defaults.
+ * Custom certificates are added to the built-in ones and, if available, the operating system's.
+ * @throws Error if a certificate file can't be read
+ */
+async function loadCaCertificates(settings: NetworkSettings): Promise<string[] | undefined> {
+	const systemCertificates = settings.systemCertificates && typeof tls.getCACertificates === 'function'
+		? tls.getCACertificates('system')
+		: [];
+	if (settings.caCertificates.length === 0 && systemCertificates.length === 0) {
+		return undefined;
+	}
+
+	const certificates = [...tls.rootCertificates, ...systemCertificates];
+	for (const entry of settings.caCertificates) {
+		if (entry.includes('-----BEGIN CERTIFICATE-----')) {
+			certificates.push(entry);
+			continue;
+		}
+		const filePath = entry.startsWith('~') ? path.join(os.homedir(), entry.slice(1)) : entry;
+		try {
+			certificates.push(Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8'));
+		} catch (error) {
+			throw new Error(`Failed to read CA certificate ${entry}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+	return certificates;
+}
+
+/**
+ * Gets the dispatcher a URL is requested through: the proxy (unless bypassed) or a direct
+ * connection, both trusting the configured certificate authorities
+ */
+async function getDispatcher(url: string): Promise<Dispatcher> {
+	const settings = getNetworkSettings();
+	const key = JSON.stringify(settings);
+	if (dispatcherCache?.key !== key) {
+		const tlsOptions = { ca: await loadCaCertificates(settings), rejectUnauthorized: settings.strictSSL };
+		const previous = dispatcherCache;
+		dispatcherCache = {
+			key,
+			direct: new Agent({ connect: tlsOptions }),
+			proxied: settings.proxy
+				? new ProxyAgent({ uri: settings.proxy, token: settings.proxyAuthorization, requestTls: tlsOptions, proxyTls: tlsOptions })
+				: undefined
+		};
+		// Let requests still using the previous dispatchers finish
+		void previous?.direct.close();
+		void previous?.proxied?.close();
+	}
+	return dispatcherCache.proxied && !isProxyBypassed(url, settings.noProxy) ? dispatcherCache.proxied : dispatcherCache.direct;
+}
+
+/** HTTP statuses worth retrying: rate limiting and server errors */
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+/** Base delay of the exponential backoff between retries */
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** Longest delay a retry waits for, including delays requested through Retry-After */
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+/** Hosts whose rate limit is exhausted, with the time (ms since epoch) it resets */
+const rateLimitResets = new Map<string, number>();
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value.trim()) * 1000;
+	}
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Gets the delay before a retry: exponential backoff with jitter, so many
+ * windows retrying at once don't hit the server at the same moment
+ */
+function getBackoffDelay(attempt: number): number {
+	const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+	return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Gets when the rate limit of a response resets, if the response says it is exhausted
+ * (X-RateLimit-Remaining: 0, or a 429 response)
+ * @returns The reset time in ms since epoch, or undefined if the rate limit isn't exhausted
+ */
+function getRateLimitReset(status: number, headers: { get(name: string): string | null }, now: number = Date.now()): number | undefined {
+	const exhausted = headers.get('x-ratelimit-remaining') === '0';
+	if (!exhausted && status !== 429) {
+		return undefined;
+	}
+	const reset = Number(headers.get('x-ratelimit-reset'));
+	if (reset > 0) {
+		return reset * 1000;
+	}
+	const retryAfter = parseRetryAfter(headers.get('retry-after'), now);
+	return retryAfter !== undefined ? now + retryAfter : exhausted ? now + 60 * 1000 : undefined;
+}
+
+/**
+ * Builds the error reported when the rate limit of a host is exhausted
+ */
+function createRateLimitError(url: string, resetAt: number, authenticated: boolean): RateLimitError {
+	const host = new URL(url).host;
+	const hint = isGitHubUrl(url).isGitHub && !authenticated ? ' Signing in to GitHub in VS Code raises the limit.' : '';
+	return new RateLimitError(`Rate limit of ${host} exceeded, try again after ${new Date(resetAt).toLocaleTimeString()}.${hint}`);
+}
+
+/**
+ * Fetches a URL with a timeout per attempt, retrying network errors, timeouts, 429 and
+ * 5xx responses with exponential backoff (or the delay from Retry-After).
+ * Requests to a host whose rate limit is known to be exhausted fail without being sent.
+ * @param authenticated Whether the request carries a token or stored credential, for the rate limit message
+ * @throws Error if the last attempt failed with a network error or timed out
+ */
+async function fetchWithRetry(url: string, headers: Record<string, string>, authenticated: boolean = false): Promise<Response> {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const timeoutMs = config.get<number>('requestTimeout', 30) * 1000;
+	const maxRetries = Math.max(0, config.get<number>('maxRetries', 2));
+	const host = new URL(url).host;
+
+	const resetAt = rateLimitResets.get(host);
+	if (resetAt !== undefined) {
+		if (resetAt > Date.now()) {
+			throw createRateLimitError(url, resetAt, authenticated);
+		}
+		rateLimitResets.delete(host);
+	}
+
+	// Configuration errors such as an unreadable CA certificate aren't worth retrying
+	const dispatcher = await getDispatcher(url);
+
+	for (let attempt = 0; ; attempt++) {
+		let response: Response;
+		try {
+			response = await undiciFetch(url, {
+				headers,
+				dispatcher,
+				signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined
+			});
+		} catch (error) {
+			const timedOut = error instanceof Error && error.name === 'TimeoutError';
+			// Only transport failures are retried; TLS and request errors won't go away
+			if (attempt >= maxRetries || !isNetworkError(error)) {
+				throw timedOut ? new Error(`Timed out after ${timeoutMs / 1000}s`, { cause: error }) : error;
+			}
+			console.log(`Instruction Sync: Retrying ${url} after ${timedOut ? 'a timeout' : 'a network error'}`);
+			await new Promise(resolve => setTimeout(resolve, getBackoffDelay(attempt)));
+			continue;
+		}
+
+		const rateLimitReset = getRateLimitReset(response.status, response.headers);
+		if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= maxRetries) {
+			if (rateLimitReset !== undefined && !response.ok) {
+				rateLimitResets.set(host, rateLimitReset);
+				throw createRateLimitError(url, rateLimitReset, authenticated);
+			}
+			return response;
+		}
+
+		const delay = parseRetryAfter(response.headers.get('retry-after')) ?? getBackoffDelay(attempt);
+		if (delay > MAX_RETRY_DELAY_MS) {
+			// Not worth blocking the sync for; report the rate limit or return the error as-is
+			if (rateLimitReset !== undefined) {
+				rateLimitResets.set(host, rateLimitReset);
+				throw createRateLimitError(url, rateLimitReset, authenticated);
+			}
+			return response;
+		}
+		console.log(`Instruction Sync: Retrying ${url} in ${delay}ms after ${response.status} ${response.statusText}`);
+		await new Promise(resolve => setTimeout(resolve, delay));
+	}
+}
+
+/**
+ * Formats an ISO timestamp for display in notifications
+ */
+function formatTimestamp(timestamp: string): string {
+	return new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Appends "(stale since <time>)" to a label if any of the content came from the offline cache
+ */
+function withStaleNote(label: string, fetched: FetchedContent[]): string {
+	const staleSince = fetched.map(f => f.staleSince).filter((t): t is string => t !== undefined).sort()[0];
+	return staleSince ? `${label} (stale since ${formatTimestamp(staleSince)})` : label;
+}
+
+/**
+ * A response body persisted in global storage along with its HTTP validators
+ */
+interface CachedResponse {
+	url: string;
+	content: string;
+	etag?: string;
+	lastModified?: string;
+	/** ISO timestamp of when the content was last fetched or revalidated */
+	fetchedAt: string;
+}
+
+/** Folder in the extension's global storage holding cached responses */
+const HTTP_CACHE_FOLDER = 'http-cache';
+
+/**
+ * Gets the folder holding cached responses, or undefined before the extension is activated
+ */
+function getHttpCacheFolder(): vscode.Uri | undefined {
+	return extensionContext ? vscode.Uri.joinPath(extensionContext.globalStorageUri, HTTP_CACHE_FOLDER) : undefined;
+}
+
+/**
+ * Gets the cache key of a request from its URL and headers. The headers include `Accept` and the
+ * credentials, so a response fetched under one identity is never served to another; only a hash is stored.
+ */
+function getHttpCacheKey(url: string, headers: Record<string, string>): string {
+	const request = Object.entries(headers)
+		.map(([name, value]) => [name.toLowerCase(), value])
+		.filter(([name]) => name !== 'if-none-match' && name !== 'if-modified-since')
+		.sort(([a], [b]) => a.localeCompare(b));
+	return computeSha256(JSON.stringify([url, request]));
+}
+
+/**
+ * Reads a cached response
+ * @param key Cache key of the request (see getHttpCacheKey)
+ */
+async function readCachedResponse(folder: vscode.Uri, key: string, url: string): Promise<CachedResponse | undefined> {
+	try {
+		const cached = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, `${key}.json`))).toString('utf8')) as CachedResponse;
+		// Guard against hash collisions and files written by other versions
+		return cached.url === url && typeof cached.content === 'string' ? cached : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Persists a response in the HTTP cache. Failures are logged, since the cache is only an optimization.
+ * @param key Cache key of the request (see getHttpCacheKey)
+ */
+async function writeCachedResponse(folder: vscode.Uri, key: string, response: CachedResponse): Promise<void> {
+	try {
+		await vscode.workspace.fs.createDirectory(folder);
+		await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder, `${key}.json`), Buffer.from(JSON.stringify(response), 'utf8'));
+	} catch (error) {
+		console.log('Instruction Sync: Failed to write HTTP cache:', error);
+	}
+}
+
+/**
+ * Removes all cached responses
+ */
+async function clearHttpCache(folder: vscode.Uri | undefined = getHttpCacheFolder()): Promise<void> {
+	if (!folder) {
+		return;
+	}
+	try {
+		await vscode.workspace.fs.delete(folder, { recursive: true });
+	} catch {
+		// Nothing cached yet
+	}
+}
+
+/**
+ * Gets the headers revalidating a cached response instead of downloading it again
+ */
+function getConditionalHeaders(cached: CachedResponse | undefined): Record<string, string> {
+	return {
+		...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+		...(cached?.lastModified ? { 'If-Modified-Since': cached.lastModified } : {})
+	};
+}
+
+/**
+ * Builds the cache entry of a response. A `304 Not Modified` answer serves the cached content
+ * and may omit validators that didn't change.
+ * @param body Body of the response, ignored for a 304
+ */
+function createCachedResponse(url: string, status: number, headers: Headers, body: string, cached?: CachedResponse): CachedResponse {
+	const notModified = status === 304 && cached !== undefined;
+	return {
+		url,
+		content: notModified ? cached.content : body,
+		etag: headers.get('etag') ?? (notModified ? cached.etag : undefined),
+		lastModified: headers.get('last-modified') ?? (notModified ? cached.lastModified : undefined),
+		fetchedAt: new Date().toISOString()
+	};
+}
+
+/**
+ * Content fetched for a particular instruction source
+ */
+interface SourceContent {
+	source: InstructionSource;
+	fetched: FetchedContent;
+	/** Files included into the fetched content through include directives */
+	includes?: string[];
+	/** SHA-256 of the content with its includes resolved; defaults to the hash of the fetched content */
+	sha256?: string;
+}
+
+/**
+ * Fetches content from a URL or local file path with authentication support
+ * for GitHub and Azure DevOps sources.
+ */
+async function fetchContent(source: string, options: FetchContentOptions = {}): Promise<string> {
+	const { content } = await fetchContentWithMetadata(source, options);
+	return content;
+}
+
+/**
+ * Same as fetchContent, but also returns the ETag and Last-Modified headers
+ * so they can be recorded in the lock file.
+ */
+async function fetchContentWithMetadata(source: string, options: FetchContentOptions = {}): Promise<FetchedContent> {
+	const { validateAsInstructions = true, accept, ref, headers: sourceHeaders = {} } = options;
+
+	// Handle local file paths
+	if (isLocalPath(source)) {
+		try {
+			const uri = localPathToUri(source);
+			const content = await vscode.workspace.fs.readFile(uri);
+			return { content: Buffer.from(content).toString('utf8') };
+		} catch (error) {
+			throw new Error(`Failed to read local file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	// Handle remote URLs
+	source = applyRef(normalizeSourceUrl(source), ref);
+	const { isGitHub, isEnterprise } = isGitHubUrl(source);
+	const isAzureDevOps = isAzureDevOpsUrl(source);
+	// GitLab and Bitbucket have no VS Code sign-in; their tokens are stored credentials
+	const hasTokenAuth = isGitLabUrl(source) || isBitbucketUrl(source).isBitbucket;
+
+	const headers: Record<string, string> = {};
+	validateSourceHeaders(sourceHeaders);
+
+	// Stored credentials take precedence over the GitHub and Azure DevOps sign-in
+	const credential = await getHostCredential(source);
+	let authenticated = credential !== undefined;
+
+	if (isGitHub) {
+		headers['Accept'] = 'application/vnd.github.v3.raw';
+		const token = credential ? null : await getGitHubToken(isEnterprise);
+		if (token) {
+			headers['Authorization'] = `Bearer ${token}`;
+			authenticated = true;
+		}
+	} else if (isAzureDevOps) {
+		headers['Accept'] = 'text/plain';
+		const token = credential ? null : await getAzureDevOpsToken();
+		if (token) {
+			headers['Authorization'] = `Bearer ${token}`;
+			authenticated = true;
+		}
+	}
+
+	if (accept) {
+		headers['Accept'] = accept;
+	}
+	Object.assign(headers, sourceHeaders, credential ? getCredentialHeaders(credential) : {});
+
+	// Revalidate a cached copy instead of downloading it again
+	const cacheFolder = vscode.workspace.getConfiguration('instructionSync').get<boolean>('httpCache', true) ? getHttpCacheFolder() : undefined;
+	const cacheKey = getHttpCacheKey(source, headers);
+	const cached = cacheFolder ? await readCachedResponse(cacheFolder, cacheKey, source) : undefined;
+	Object.assign(headers, getConditionalHeaders(cached));
+
+	let response: Response;
+	try {
+		response = await fetchWithRetry(source, headers, authenticated);
+		if (response.status >= 500) {
+			throw new ServerUnavailableError(`${response.status} ${response.statusText}`);
+		}
+	} catch (error) {
+		// Misconfigurations (a malformed URL, an untrusted certificate, an unreadable CA file) are errors, not offline
+		if (!isNetworkError(error) && !(error instanceof ServerUnavailableError)) {
+			throw error;
+		}
+		// Fall back to the last known good copy while offline
+		// fetch reports the underlying network error as the cause of "fetch failed"
+		const cause = error instanceof TypeError && error.cause instanceof Error ? error.cause.message : error instanceof Error ? error.message : String(error);
+		const offlineError = reportOffline(source, cause, cached);
+		if (cached) {
+			return { content: cached.content, etag: cached.etag, lastModified: cached.lastModified, staleSince: cached.fetchedAt };
+		}
+		throw offlineError;
+	}
+	reportOnline(source);
+
+	const notModified = response.status === 304 && cached !== undefined;
+	if (!response.ok && !notModified) {
+		// GitLab answers 404 for private projects without a token
+		const authStatuses = hasTokenAuth ? [401, 403, 404] : [401, 403];
+		const hint = authStatuses.includes(response.status) && !credential && !isGitHub && !isAzureDevOps
+			? '. Run "Set Credentials for Host" if the server requires authentication.'
+			: '';
+		throw new Error(`Failed to fetch from ${source}: ${response.status} ${response.statusText}${hint}`);
+	}
+
+	const entry = createCachedResponse(source, response.status, response.headers, await response.text(), cached);
+	const { content, etag, lastModified } = entry;
+
+	// Validate the content to ensure it's not an error page (only for instruction files)
+	if (validateAsInstructions) {
+		const validation = isValidInstructionContent(content, source);
+		if (!validation.valid) {
+			throw new Error(`Invalid content from ${source}: ${validation.reason}`);
+		}
+	}
+
+	if (cacheFolder) {
+		await writeCachedResponse(cacheFolder, cacheKey, entry);
+	}
+
+	return { content, etag, lastModified, ...(notModified ? { notModified } : {}) };
+}
+
+/**
+ * Matches include directives such as <!-- include: ./security.md -->
+ */
+const INCLUDE_DIRECTIVE_PATTERN = /<!--\s*include:\s*(.+?)\s*-->/g;
+
+/**
+ * Resolves the target of an include directive relative to the URL or local path
+ * of the including file. Query parameters of the including URL (e.g. GitHub's ?ref=)
+ * are carried over, Azure DevOps item URLs are resolved within their `path` parameter,
+ * and GitLab file API URLs within their encoded file path.
+ * @throws Error if a remote file targets a local path or a URL scheme other than http(s)
+ */
+function resolveIncludeTarget(baseUrl: string, target: string): string {
+	// A remote file must not pull local files into the synced output
+	if (/^https?:\/\//i.test(baseUrl) && (isLocalPath(target) || (/^[a-z][a-z0-9+.-]*:/i.test(target) && !/^https?:\/\//i.test(target)))) {
+		throw new Error(`A remote file can only include relative or http(s) targets: ${target} (included from ${baseUrl})`);
+	}
+
+	// Absolute targets are used as-is
+	if (/^https?:\/\//i.test(target) || isLocalPath(target)) {
+		return target;
+	}
+
+	if (isLocalPath(baseUrl) && !baseUrl.startsWith('file://')) {
+		const pathApi = /^[a-zA-Z]:[\\/]/.test(baseUrl) ? path.win32 : path.posix;
+		return pathApi.resolve(pathApi.dirname(baseUrl), target);
+	}
+
+	const base = new URL(baseUrl);
+
+	// Azure DevOps items API keeps the file path in a query parameter
+	const itemPath = base.searchParams.get('path');
+	if (isAzureDevOpsUrl(baseUrl) && itemPath) {
+		const resolved = new URL(base.toString());
+		resolved.searchParams.set('path', path.posix.resolve(path.posix.dirname(itemPath), target));
+		return resolved.toString();
+	}
+
+	// GitLab's files API encodes the whole file path in one segment
+	const gitLab = parseGitLabUrl(baseUrl);
+	if (gitLab?.type === 'file' && base.pathname.includes('/api/v4/projects/')) {
+		return getGitLabFileUrl(gitLab, path.posix.resolve('/', path.posix.dirname(gitLab.path), target).slice(1));
+	}
+
+	const resolved = new URL(target, base);
+	if (!target.includes('?')) {
+		resolved.search = base.search;
+	}
+	return resolved.toString();
+}
+
+/**
+ * Result of resolving include directives
+ */
+interface ResolvedIncludes {
+	content: string;
+	/** URLs or paths of all included files, in the order they were first included */
+	includes: string[];
+}
+
+/**
+ * Gets the source headers sent with an included file: only files on the source's own
+ * origin get them, others only get the credentials stored for their host
+ */
+function getIncludeHeaders(sourceUrl: string, target: string, headers?: Record<string, string>): Record<string, string> | undefined {
+	if (!headers || !/^https?:\/\//i.test(sourceUrl) || !/^https?:\/\//i.test(target)) {
+		return undefined;
+	}
+	return new URL(sourceUrl).origin === new URL(target).origin ? headers : undefined;
+}
+
+/**
+ * Recursively replaces include directives with the content of the referenced files.
+ * Included files are fetched through fetchContent, so they get the same authentication
+ * as the including file when they live on the same host.
+ * @param headers Additional request headers of the including source, only sent to its origin
+ * @param stack URLs of the files currently being included, for cycle detection
+ */
+async function resolveIncludes(content: string, baseUrl: string, headers?: Record<string, string>, stack: string[] = [baseUrl]): Promise<ResolvedIncludes> {
+	const matches = Array.from(content.matchAll(INCLUDE_DIRECTIVE_PATTERN));
+	if (matches.length === 0) {
+		return { content, includes: [] };
+	}
+
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const maxDepth = config.get<number>('maxIncludeDepth', 5);
+	if (stack.length > maxDepth) {
+		throw new Error(`Include depth limit of ${maxDepth} exceeded: ${stack.join(' -> ')}`);
+	}
+
+	const includes: string[] = [];
+	let result = '';
+	let lastIndex = 0;
+
+	for (const match of matches) {
+		const target = resolveIncludeTarget(baseUrl, match[1]);
+		if (stack.includes(target)) {
+			throw new Error(`Include cycle detected: ${[...stack, target].join(' -> ')}`);
+		}
+
+		const includeHeaders = getIncludeHeaders(stack[0], target, headers);
+		const included = await resolveIncludes(await fetchContent(target, { headers: includeHeaders }), target, headers, [...stack, target]);
+		for (const url of [target, ...included.includes]) {
+			if (!includes.includes(url)) {
+				includes.push(url);
+			}
+		}
+
+		result += content.slice(lastIndex, match.index) + included.content.replace(/\r?\n$/, '');
+		lastIndex = match.index + match[0].length;
+	}
+
+	return { content: result + content.slice(lastIndex), includes };
+}
+
+/**
+ * Gets the current content of the local instructions file
+ */
+async function getLocalInstructions(workspaceFolder: vscode.WorkspaceFolder, source: InstructionSource): Promise<string | null> {
+	const { fullPath } = getDestinationPath(source);
+	const instructionsUri = vscode.Uri.joinPath(workspaceFolder.uri, fullPath);
+	try {
+		const content = await vscode.workspace.fs.readFile(instructionsUri);
+		return Buffer.from(content).toString('utf8');
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Writes content to the local instructions file.
+ * When a managed block id is given, only that block is replaced (or inserted)
+ * and the rest of the file is preserved.
+ */
+async function writeLocalInstructions(
+	workspaceFolder: vscode.WorkspaceFolder,
+	content: string,
+	source: InstructionSource,
+	blockId?: string
+): Promise<void> {
+	const { folder, fullPath } = getDestinationPath(source);
+	const destinationFolderUri = vscode.Uri.joinPath(workspaceFolder.uri, folder);
+	const instructionsUri = vscode.Uri.joinPath(workspaceFolder.uri, fullPath);
+
+	// Ensure destination directory exists
+	try {
+		await vscode.workspace.fs.createDirectory(destinationFolderUri);
+	} catch {
+		// Directory may already exist
+	}
+
+	if (blockId) {
+		content = renderDestinationFile(await getLocalInstructions(workspaceFolder, source), content, source, blockId);
+	}
+
+	await vscode.workspace.fs.writeFile(instructionsUri, Buffer.from(content, 'utf8'));
+}
+
+/**
+ * Gets the content of a destination file after writing instructions to it: the
+ * instructions themselves, or the file with the managed block replaced or inserted
+ */
+function renderDestinationFile(existing: string | null, content: string, source: InstructionSource, blockId?: string): string {
+	if (!blockId) {
+		return content;
+	}
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const position = source.insertPosition ?? config.get<ManagedBlockPosition>('managedBlockPosition', 'bottom');
+	return upsertManagedBlock(existing ?? '', blockId, content, position);
+}
+
+/**
+ * Converts a language name into an identifier usable in markers and file names
+ * (e.g. "C#" -> "csharp", "C++" -> "cpp")
+ */
+function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/#/g, 'sharp')
+		.replace(/\+/g, 'p')
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Builds the begin/end marker comments that delimit a managed block
+ */
+function getManagedBlockMarkers(id: string): { begin: string; end: string } {
+	return {
+		begin: `<!-- instruction-sync:begin id=${id} -->`,
+		end: `<!-- instruction-sync:end id=${id} -->`
+	};
+}
+
+/**
+ * Locates a managed block in a file.
+ * @returns Offsets of the whole block (markers included) and of its body, or null if not found
+ */
+function findManagedBlock(content: string, id: string): { start: number; end: number; bodyStart: number; bodyEnd: number } | null {
+	const escapedId = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const beginMatch = new RegExp(`<!--\\s*instruction-sync:begin\\s+id=${escapedId}\\s*-->[ \\t]*\\r?\\n?`).exec(content);
+	if (!beginMatch) {
+		return null;
+	}
+
+	const bodyStart = beginMatch.index + beginMatch[0].length;
+	const endPattern = new RegExp(`\\r?\\n?<!--\\s*instruction-sync:end\\s+id=${escapedId}\\s*-->`, 'g');
+	endPattern.lastIndex = beginMatch.index + beginMatch[0].trimEnd().length;
+	const endMatch = endPattern.exec(content);
+	if (!endMatch) {
+		return null;
+	}
+
+	return {
+		start: beginMatch.index,
+		end: endMatch.index + endMatch[0].length,
+		bodyStart,
+		bodyEnd: Math.max(bodyStart, endMatch.index)
+	};
+}
+
+/**
+ * Extracts the body of a managed block, or null if the block doesn't exist
+ */
+function extractManagedBlock(content: string, id: string): string | null {
+	const block = findManagedBlock(content, id);
+	return block ? content.slice(block.bodyStart, block.bodyEnd) : null;
+}
+
+/**
+ * Replaces the body of a managed block, or inserts the block at the given position
+ * if the file doesn't contain it yet. Content outside the markers is preserved.
+ */
+function upsertManagedBlock(content: string, id: string, body: string, position: ManagedBlockPosition = 'bottom'): string {
+	const { begin, end } = getManagedBlockMarkers(id);
+	const rendered = `${begin}\n${body}\n${end}`;
+	const block = findManagedBlock(content, id);
+
+	if (block) {
+		return content.slice(0, block.start) + rendered + content.slice(block.end);
+	}
+	if (content.trim().length === 0) {
+		return `${rendered}\n`;
+	}
+	return position === 'top'
+		? `${rendered}\n\n${content}`
+		: `${content.trimEnd()}\n\n${rendered}\n`;
+}
+
+/**
+ * Gets the managed block id of a source if its content lives in a marked block
+ * of the destination: either because the source is configured as managed, or
+ * because the destination already contains markers for it.
+ */
+function getManagedBlockId(source: InstructionSource, fileContent: string | null): string | undefined {
+	// Path-scoped files start with frontmatter, which can't live inside a block
+	if (isPathScoped(source)) {
+		return undefined;
+	}
+	const id = source.id ?? slugify(source.language);
+	if (source.managed || (fileContent !== null && findManagedBlock(fileContent, id))) {
+		return id;
+	}
+	return undefined;
+}
+
+/**
+ * Computes the hex-encoded SHA-256 hash of a string
+ */
+function computeSha256(content: string): string {
+	return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Checks fetched content against the SHA-256 a source is pinned to
+ * @throws Error if the hashes differ
+ */
+function verifySha256(source: InstructionSource, actual: string): void {
+	if (source.sha256 && source.sha256.trim().toLowerCase() !== actual) {
+		throw new Error(`Integrity check failed for ${source.url}: expected SHA-256 ${source.sha256.trim()}, got ${actual}`);
+	}
+}
+
+/**
+ * Reads the sync lock file of a workspace folder.
+ * Returns an empty lock if the file does not exist or cannot be parsed.
+ */
+async function readLockFile(workspaceFolder: vscode.WorkspaceFolder): Promise<LockFile> {
+	const lockUri = vscode.Uri.joinPath(workspaceFolder.uri, LOCK_FILE_PATH);
+	try {
+		const raw = await vscode.workspace.fs.readFile(lockUri);
+		const parsed = JSON.parse(Buffer.from(raw).toString('utf8'));
+		if (typeof parsed === 'object' && parsed !== null && typeof parsed.entries === 'object' && parsed.entries !== null) {
+			return { version: LOCK_FILE_VERSION, entries: parsed.entries };
+		}
+	} catch {
+		// Missing or unreadable lock file, start fresh
+	}
+	return { version: LOCK_FILE_VERSION, entries: {} };
+}
+
+/**
+ * Serializes the lock file with entries sorted by destination so that
+ * the committed file produces stable diffs.
+ */
+function serializeLockFile(lock: LockFile): string {
+	const entries: Record<string, LockEntry> = {};
+	for (const key of Object.keys(lock.entries).sort()) {
+		const entry = lock.entries[key];
+		entries[key] = {
+			destination: entry.destination,
+			block: entry.block,
+			sha256: entry.sha256,
+			syncedAt: entry.syncedAt,
+			sources: (entry.sources ?? []).map(s => ({
+				language: s.language,
+				url: s.url,
+				ref: s.ref,
+				sha256: s.sha256,
+				etag: s.etag,
+				lastModified: s.lastModified,
+				includes: s.includes
+			})),
+			files: entry.files
+		};
+	}
+	return JSON.stringify({ version: lock.version, entries }, null, 2) + '\n';
+}
+
+/**
+ * Writes the sync lock file of a workspace folder
+ */
+async function writeLockFile(workspaceFolder: vscode.WorkspaceFolder, lock: LockFile): Promise<void> {
+	const lockUri = vscode.Uri.joinPath(workspaceFolder.uri, LOCK_FILE_PATH);
+	try {
+		await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(workspaceFolder.uri, path.posix.dirname(LOCK_FILE_PATH)));
+	} catch {
+		// Directory may already exist
+	}
+	await vscode.workspace.fs.writeFile(lockUri, Buffer.from(serializeLockFile(lock), 'utf8'));
+}
+
+/**
+ * Gets the lock file key of a destination, or of a managed block within it
+ */
+function getLockKey(destination: string, blockId?: string): string {
+	return blockId ? `${destination}#${blockId}` : destination;
+}
+
+/**
+ * Builds the lock entry describing content synced from one or more sources
+ * that share a destination
+ */
+function createLockEntry(parts: SourceContent[], syncedContent: string, blockId?: string): LockEntry {
+	return {
+		destination: getDestinationPath(parts[0]?.source).fullPath,
+		block: blockId,
+		sha256: computeSha256(syncedContent),
+		syncedAt: new Date().toISOString(),
+		sources: parts.map(({ source, fetched, includes, sha256 }) => ({
+			language: source.language,
+			url: source.url,
+			...(source.ref ? { ref: source.ref } : {}),
+			sha256: sha256 ?? computeSha256(fetched.content),
+			etag: fetched.etag,
+			lastModified: fetched.lastModified,
+			...(includes && includes.length > 0 ? { includes } : {})
+		}))
+	};
+}
+
+/**
+ * Records the provenance of content synced from a source in the lock file.
+ * The lock file is only rewritten when the recorded provenance actually changes,
+ * so repeated syncs of unchanged content don't churn the committed file.
+ */
+async function recordLockEntry(
+	workspaceFolder: vscode.WorkspaceFolder,
+	parts: SourceContent[],
+	syncedContent: string,
+	blockId?: string
+): Promise<void> {
+	await storeLockEntry(workspaceFolder, createLockEntry(parts, syncedContent, blockId));
+}
+
+/**
+ * Stores an entry in the lock file, unless only its timestamp differs from the stored one
+ */
+async function storeLockEntry(workspaceFolder: vscode.WorkspaceFolder, entry: LockEntry): Promise<void> {
+	const lock = await readLockFile(workspaceFolder);
+	const key = getLockKey(entry.destination, entry.block);
+	const existing = lock.entries[key];
+
+	// Compare the JSON representation, ignoring the timestamp
+	const comparable = (e: LockEntry) => JSON.parse(JSON.stringify({ ...e, syncedAt: undefined }));
+	if (existing && deepEqual(comparable(existing), comparable(entry))) {
+		return;
+	}
+
+	lock.entries[key] = entry;
+	await writeLockFile(workspaceFolder, lock);
+}
+
+/**
+ * A file pattern used for language detection, optionally weighted.
+ * Each matching file contributes `weight` (default: 1) to the language's score.
+ */
+type LanguagePattern = string | { pattern: string; weight?: number };
+
+/**
+ * Built-in language detection patterns. Project files weigh more than
+ * individual source files, since a single one identifies the language.
+ */
+const DEFAULT_LANGUAGE_PATTERNS: Record<string, LanguagePattern[]> = {
+	'AL': ['**/*.al', { pattern: 'app.json', weight: 10 }],
+	'C#': ['**/*.cs', { pattern: '**/*.csproj', weight: 10 }],
+	'TypeScript': ['**/*.ts', '**/*.tsx'],
+	'JavaScript': ['**/*.js', '**/*.jsx'],
+	'Python': ['**/*.py'],
+	'Java': ['**/*.java'],
+	'Go': ['**/*.go'],
+	'Rust': ['**/*.rs'],
+	'C++': ['**/*.cpp', '**/*.hpp', '**/*.cc'],
+	'C': ['**/*.c', '**/*.h'],
+	'Ruby': ['**/*.rb'],
+	'PHP': ['**/*.php'],
+	'Swift': ['**/*.swift'],
+	'Kotlin': ['**/*.kt'],
+	'Powershell': ['**/*.ps1']
+};
+
+/** Maximum number of files counted per detection pattern */
+const MAX_FILES_PER_PATTERN = 500;
+
+/**
+ * Merges language detection patterns. Later layers replace the patterns of a
+ * language entirely; an empty array disables detection of that language.
+ */
+function mergeLanguagePatterns(...layers: (Record<string, LanguagePattern[]> | undefined)[]): Record<string, LanguagePattern[]> {
+	const merged: Record<string, LanguagePattern[]> = {};
+	for (const layer of layers) {
+		for (const [language, patterns] of Object.entries(layer ?? {})) {
+			if (Array.isArray(patterns)) {
+				merged[language] = patterns;
+			}
+		}
+	}
+	for (const [language, patterns] of Object.entries(merged)) {
+		if (patterns.length === 0) {
+			delete merged[language];
+		}
+	}
+	return merged;
+}
+
+/**
+ * Gets the effective language detection patterns: built-in defaults,
+ * overridden by the remote configuration, overridden by local settings
+ */
+function getLanguagePatterns(remoteConfig?: RemoteConfig | null): Record<string, LanguagePattern[]> {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	return mergeLanguagePatterns(
+		DEFAULT_LANGUAGE_PATTERNS,
+		remoteConfig?.languagePatterns,
+		config.get<Record<string, LanguagePattern[]>>('languagePatterns', {})
+	);
+}
+
+/**
+ * Converts .gitignore lines into glob patterns usable as findFiles excludes.
+ * Negations are not supported and are skipped.
+ */
+function gitignoreToGlobs(content: string): string[] {
+	const globs: string[] = [];
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#') || line.startsWith('!')) {
+			continue;
+		}
+
+		const pattern = line.replace(/\/+$/, '');
+		if (!pattern) {
+			continue;
+		}
+
+		// Patterns containing a slash (other than a trailing one) are relative to the .gitignore location
+		const anchored = pattern.includes('/');
+		const base = anchored ? pattern.replace(/^\/+/, '') : `**/${pattern}`;
+		globs.push(base, `${base}/**`);
+	}
+	return globs;
+}
+
+/**
+ * Combines exclude patterns into a single glob. Commas are not allowed inside
+ * brace groups, so patterns containing them are skipped.
+ */
+function buildExcludeGlob(patterns: string[]): string {
+	const unique = Array.from(new Set(patterns.filter(p => p && !p.includes(','))));
+	return unique.length === 1 ? unique[0] : `{${unique.join(',')}}`;
+}
+
+/**
+ * Collects the exclude patterns for language detection of a workspace folder:
+ * node_modules, files.exclude, search.exclude and the root .gitignore
+ */
+async function getDetectionExcludes(workspaceFolder: vscode.WorkspaceFolder): Promise<string[]> {
+	const excludes = ['**/node_modules/**'];
+
+	for (const section of ['files', 'search']) {
+		const settings = vscode.workspace.getConfiguration(section, workspaceFolder.uri).get<Record<string, unknown>>('exclude', {});
+		for (const [pattern, enabled] of Object.entries(settings)) {
+			// Conditional excludes ({ "when": ... }) depend on sibling files and are not supported
+			if (enabled === true) {
+				excludes.push(pattern);
+			}
+		}
+	}
+
+	try {
+		const gitignore = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceFolder.uri, '.gitignore'));
+		excludes.push(...gitignoreToGlobs(Buffer.from(gitignore).toString('utf8')));
+	} catch {
+		// No .gitignore
+	}
+
+	return excludes;
+}
+
+/**
+ * Selects the languages whose weighted file score meets both the minimum file count
+ * and the minimum percentage of the total score across all languages
+ */
+function selectDetectedLanguages(scores: Record<string, number>, minFileCount: number, minPercentage: number): string[] {
+	const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+	if (total === 0) {
+		return [];
+	}
+	return Object.entries(scores)
+		.filter(([, score]) => score > 0 && score >= minFileCount && (score / total) * 100 >= minPercentage)
+		.map(([language]) => language);
+}
+
+/**
+ * Detects the languages of the workspace based on weighted file counts.
+ * Files excluded by files.exclude, search.exclude or .gitignore are not counted, and a
+ * language only counts as detected once it reaches the configured thresholds.
+ */
+async function detectWorkspaceLanguage(workspaceFolder: vscode.WorkspaceFolder): Promise<string[]> {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const minFileCount = config.get<number>('detection.minFileCount', 1);
+	const minPercentage = config.get<number>('detection.minPercentage', 0);
+
+	const languagePatterns = getLanguagePatterns(await fetchRemoteConfig());
+	const exclude = buildExcludeGlob(await getDetectionExcludes(workspaceFolder));
+
+	const scores: Record<string, number> = {};
+	for (const [language, patterns] of Object.entries(languagePatterns)) {
+		scores[language] = 0;
+		for (const entry of patterns) {
+			const { pattern, weight = 1 } = typeof entry === 'string' ? { pattern: entry } : entry;
+			const relativePattern = new vscode.RelativePattern(workspaceFolder, pattern);
+			const files = await vscode.workspace.findFiles(relativePattern, exclude, MAX_FILES_PER_PATTERN);
+			scores[language] += files.length * weight;
+		}
+	}
+
+	return selectDetectedLanguages(scores, minFileCount, minPercentage);
+}
+
+/**
+ * npm packages that identify a framework or tool, keyed by package name
+ */
+const NPM_FRAMEWORKS: Record<string, string> = {
+	'react': 'react',
+	'react-native': 'react-native',
+	'next': 'nextjs',
+	'vue': 'vue',
+	'nuxt': 'nuxt',
+	'@angular/core': 'angular',
+	'svelte': 'svelte',
+	'@sveltejs/kit': 'sveltekit',
+	'@nestjs/core': 'nestjs',
+	'express': 'express',
+	'electron': 'electron',
+	'@types/vscode': 'vscode-extension',
+	'jest': 'jest',
+	'vitest': 'vitest'
+};
+
+/**
+ * NuGet packages and MSBuild SDKs that identify a framework, keyed by name.
+ * Patterns ending with '*' match by prefix.
+ */
+const DOTNET_FRAMEWORKS: Record<string, string> = {
+	'Microsoft.NET.Sdk.Web': 'aspnetcore',
+	'Microsoft.AspNetCore.*': 'aspnetcore',
+	'Microsoft.NET.Sdk.BlazorWebAssembly': 'blazor',
+	'Microsoft.AspNetCore.Components.*': 'blazor',
+	'Microsoft.EntityFrameworkCore*': 'efcore',
+	'Microsoft.Maui.*': 'maui',
+	'Microsoft.Azure.Functions.Worker*': 'azure-functions',
+	'xunit': 'xunit',
+	'NUnit': 'nunit',
+	'MSTest.TestFramework': 'mstest'
+};
+
+/**
+ * Python distributions that identify a framework, keyed by normalized name
+ */
+const PYTHON_FRAMEWORKS: Record<string, string> = {
+	'django': 'django',
+	'flask': 'flask',
+	'fastapi': 'fastapi',
+	'pytest': 'pytest',
+	'pandas': 'pandas',
+	'streamlit': 'streamlit'
+};
+
+/**
+ * Detects frameworks from the dependencies of a parsed package.json
+ */
+function detectFrameworksFromPackageJson(manifest: unknown): string[] {
+	if (typeof manifest !== 'object' || manifest === null) {
+		return [];
+	}
+	const json = manifest as Record<string, unknown>;
+	const dependencyNames = ['dependencies', 'devDependencies', 'peerDependencies']
+		.flatMap(field => typeof json[field] === 'object' && json[field] !== null ? Object.keys(json[field] as object) : []);
+
+	const frameworks = new Set<string>();
+	for (const name of dependencyNames) {
+		if (NPM_FRAMEWORKS[name]) {
+			frameworks.add(NPM_FRAMEWORKS[name]);
+		}
+	}
+	// VS Code extensions declare the editor version they target
+	const engines = json.engines as Record<string, unknown> | undefined;
+	if (typeof engines?.vscode === 'string') {
+		frameworks.add('vscode-extension');
+	}
+	return Array.from(frameworks);
+}
+
+/**
+ * Detects frameworks from the SDK and PackageReferences of a .csproj file
+ */
+function detectFrameworksFromCsproj(content: string): string[] {
+	const names: string[] = [];
+	for (const match of content.matchAll(/<Project\s[^>]*Sdk\s*=\s*"([^"]+)"/gi)) {
+		names.push(match[1]);
+	}
+	for (const match of content.matchAll(/<PackageReference\s[^>]*Include\s*=\s*"([^"]+)"/gi)) {
+		names.push(match[1]);
+	}
+
+	const frameworks = new Set<string>();
+	for (const name of names) {
+		for (const [pattern, framework] of Object.entries(DOTNET_FRAMEWORKS)) {
+			const matches = pattern.endsWith('*')
+				? name.toLowerCase().startsWith(pattern.slice(0, -1).toLowerCase())
+				: name.toLowerCase() === pattern.toLowerCase();
+			if (matches) {
+				frameworks.add(framework);
+			}
+		}
+	}
+	return Array.from(frameworks);
+}
+
+/**
+ * Detects frameworks from a requirements.txt or pyproject.toml file
+ */
+function detectFrameworksFromPythonManifest(content: string): string[] {
+	const names = new Set<string>();
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		// requirements.txt lines and PEP 621 dependency strings: name[extras]>=version
+		for (const match of line.matchAll(/(?:^|["'])([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?=[\[<>=~!;@,"']|$)/g)) {
+			names.add(match[1].toLowerCase().replace(/[._]/g, '-'));
+		}
+		// Poetry style: name = "^version"
+		const poetryMatch = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*=/.exec(line);
+		if (poetryMatch) {
+			names.add(poetryMatch[1].toLowerCase().replace(/[._]/g, '-'));
+		}
+	}
+
+	const frameworks = new Set<string>();
+	for (const name of names) {
+		if (PYTHON_FRAMEWORKS[name]) {
+			frameworks.add(PYTHON_FRAMEWORKS[name]);
+		}
+	}
+	return Array.from(frameworks);
+}
+
+/**
+ * Detects Business Central from an AL app.json (as opposed to e.g. an Expo app.json)
+ */
+function detectFrameworksFromAppJson(manifest: unknown): string[] {
+	if (typeof manifest !== 'object' || manifest === null) {
+		return [];
+	}
+	const json = manifest as Record<string, unknown>;
+	const isAlApp = typeof json.publisher === 'string'
+		&& (json.platform !== undefined || json.application !== undefined || json.idRanges !== undefined);
+	return isAlApp ? ['business-central'] : [];
+}
+
+/**
+ * Detects frameworks and tooling used in the workspace by inspecting manifests:
+ * package.json dependencies, .csproj PackageReferences, requirements.txt/pyproject.toml
+ * and app.json for AL
+ */
+async function detectWorkspaceFrameworks(workspaceFolder: vscode.WorkspaceFolder): Promise<string[]> {
+	const detectedFrameworks = new Set<string>();
+
+	const readManifests = async (pattern: string, maxResults: number): Promise<string[]> => {
+		const relativePattern = new vscode.RelativePattern(workspaceFolder, pattern);
+		const files = await vscode.workspace.findFiles(relativePattern, '**/node_modules/**', maxResults);
+		const contents: string[] = [];
+		for (const file of files) {
+			try {
+				contents.push(Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8'));
+			} catch {
+				// Unreadable manifest, skip it
+			}
+		}
+		return contents;
+	};
+
+	const parseJson = (content: string): unknown => {
+		try {
+			return JSON.parse(content);
+		} catch {
+			return undefined;
+		}
+	};
+
+	const detectors: [string, (content: string) => string[]][] = [
+		['**/package.json', content => detectFrameworksFromPackageJson(parseJson(content))],
+		['**/*.csproj', detectFrameworksFromCsproj],
+		['**/{requirements*.txt,pyproject.toml}', detectFrameworksFromPythonManifest],
+		['**/app.json', content => detectFrameworksFromAppJson(parseJson(content))]
+	];
+
+	for (const [pattern, detect] of detectors) {
+		for (const content of await readManifests(pattern, 50)) {
+			detect(content).forEach(framework => detectedFrameworks.add(framework));
+		}
+	}
+
+	return Array.from(detectedFrameworks);
+}
+
+/**
+ * Flattens nested JSON values into dotted template variables (e.g. package.repository.url).
+ * Arrays are joined with ", "; null values are skipped.
+ */
+function flattenTemplateVariables(prefix: string, value: unknown, variables: Record<string, string>): void {
+	if (value === null || value === undefined) {
+		return;
+	}
+	if (Array.isArray(value)) {
+		if (value.every(item => typeof item !== 'object' || item === null)) {
+			variables[prefix] = value.filter(item => item !== null).map(String).join(', ');
+		}
+		return;
+	}
+	if (typeof value === 'object') {
+		for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+			flattenTemplateVariables(`${prefix}.${key}`, nested, variables);
+		}
+		return;
+	}
+	variables[prefix] = String(value);
+}
+
+/**
+ * Reads a JSON file from the workspace folder, or returns undefined if it doesn't exist or is invalid
+ */
+async function readWorkspaceJson(workspaceFolder: vscode.WorkspaceFolder, relativePath: string): Promise<unknown> {
+	try {
+		const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceFolder.uri, relativePath));
+		return JSON.parse(Buffer.from(raw).toString('utf8'));
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Reads the origin remote URL, current branch and default branch of a workspace folder
+ * directly from its .git directory. Missing values are omitted.
+ */
+async function readGitInfo(workspaceFolder: vscode.WorkspaceFolder): Promise<{ remote?: string; branch?: string; defaultBranch?: string }> {
+	const readText = async (uri: vscode.Uri): Promise<string | undefined> => {
+		try {
+			return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			return undefined;
+		}
+	};
+
+	let gitDir = vscode.Uri.joinPath(workspaceFolder.uri, '.git');
+
+	// Worktrees and submodules use a .git file pointing to the actual git directory
+	const gitFile = await readText(gitDir);
+	const gitDirMatch = gitFile ? /^gitdir:\s*(.+)$/m.exec(gitFile) : null;
+	if (gitDirMatch) {
+		const target = gitDirMatch[1].trim();
+		gitDir = path.isAbsolute(target) ? vscode.Uri.file(target) : vscode.Uri.joinPath(workspaceFolder.uri, target);
+	}
+
+	const info: { remote?: string; branch?: string; defaultBranch?: string } = {};
+
+	const config = await readText(vscode.Uri.joinPath(gitDir, 'config'));
+	const remoteMatch = config ? /\[remote "origin"\][^[]*?^\s*url\s*=\s*(.+)$/m.exec(config) : null;
+	if (remoteMatch) {
+		info.remote = remoteMatch[1].trim();
+	}
+
+	const head = await readText(vscode.Uri.joinPath(gitDir, 'HEAD'));
+	const headMatch = head ? /^ref:\s*refs\/heads\/(.+)$/m.exec(head) : null;
+	if (headMatch) {
+		info.branch = headMatch[1].trim();
+	}
+
+	const originHead = await readText(vscode.Uri.joinPath(gitDir, 'refs', 'remotes', 'origin', 'HEAD'));
+	const originHeadMatch = originHead ? /^ref:\s*refs\/remotes\/origin\/(.+)$/m.exec(originHead) : null;
+	info.defaultBranch = originHeadMatch ? originHeadMatch[1].trim() : info.branch;
+
+	return info;
+}
+
+/**
+ * Builds the variables available to instruction templates for a workspace folder:
+ * workspace.*, languages, git.*, package.* (package.json), app.* (app.json)
+ * and vars.* (custom variables from the remote configuration).
+ */
+async function buildTemplateVariables(
+	workspaceFolder: vscode.WorkspaceFolder,
+	detectedLanguages: string[],
+	customVariables: Record<string, string> = {}
+): Promise<Record<string, string>> {
+	const variables: Record<string, string> = {
+		'workspace.name': workspaceFolder.name,
+		'languages': detectedLanguages.join(', ')
+	};
+
+	const git = await readGitInfo(workspaceFolder);
+	if (git.remote) {
+		variables['git.remote'] = git.remote;
+	}
+	if (git.branch) {
+		variables['git.branch'] = git.branch;
+	}
+	if (git.defaultBranch) {
+		variables['git.defaultBranch'] = git.defaultBranch;
+	}
+
+	flattenTemplateVariables('package', await readWorkspaceJson(workspaceFolder, 'package.json'), variables);
+	flattenTemplateVariables('app', await readWorkspaceJson(workspaceFolder, 'app.json'), variables);
+	flattenTemplateVariables('vars', customVariables, variables);
+
+	return variables;
+}
+
+/** Namespaces of the template variables built by buildTemplateVariables, e.g. {{git.branch}} */
+const TEMPLATE_NAMESPACES = ['workspace', 'git', 'package', 'app', 'vars'];
+
+/**
+ * Checks whether a placeholder name belongs to the extension's template variables,
+ * rather than to another template language such as Vue, Angular, Handlebars or Jinja
+ */
+function isTemplateVariableName(name: string): boolean {
+	const dot = name.indexOf('.');
+	return name === 'languages' || (dot > 0 && TEMPLATE_NAMESPACES.includes(name.slice(0, dot)));
+}
+
+/**
+ * Expands {{placeholder}} variables in instruction content.
+ * Unresolved placeholders of the extension's variables are reported as an error instead of being
+ * written verbatim; other placeholders and GitHub Actions expressions (${{ ... }}) are left untouched.
+ */
+function expandTemplate(content: string, variables: Record<string, string>): string {
+	const unresolved = new Set<string>();
+	const expanded = content.replace(/(?<!\$)\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g, (match, name: string) => {
+		if (!isTemplateVariableName(name)) {
+			return match;
+		}
+		if (Object.prototype.hasOwnProperty.call(variables, name)) {
+			return variables[name];
+		}
+		unresolved.add(name);
+		return match;
+	});
+
+	if (unresolved.size > 0) {
+		throw new Error(`Unresolved template placeholder(s): ${Array.from(unresolved).map(name => `{{${name}}}`).join(', ')}`);
+	}
+	return expanded;
+}
+
+/**
+ * Gets the template variables of a workspace folder, cached for the duration of a sync session
+ */
+async function getTemplateVariables(workspaceFolder: vscode.WorkspaceFolder, session?: SyncSession): Promise<Record<string, string>> {
+	const key = workspaceFolder.uri.toString();
+	const cached = session?.templateVariables?.get(key);
+	if (cached) {
+		return cached;
+	}
+
+	const remoteConfig = await fetchRemoteConfig();
+	const variables = await buildTemplateVariables(
+		workspaceFolder,
+		await detectWorkspaceLanguage(workspaceFolder),
+		remoteConfig?.variables
+	);
+
+	if (session) {
+		session.templateVariables ??= new Map();
+		session.templateVariables.set(key, variables);
+	}
+	return variables;
+}
+
+/**
+ * Gets a display name for a source's language ('*' is shown as "General")
+ */
+function getLanguageLabel(source: InstructionSource): string {
+	return source.language === '*' ? 'General' : source.language;
+}
+
+/**
+ * Sorts sources that share a destination into a stable composition order:
+ * by `order`, then by language, then by URL. The order doesn't depend on how
+ * the sources happen to be listed in settings, so repeated syncs don't churn.
+ */
+function sortSourcesForComposition(sources: InstructionSource[]): InstructionSource[] {
+	return [...sources].sort((a, b) =>
+		(a.order ?? 0) - (b.order ?? 0)
+		|| getLanguageLabel(a).toLowerCase().localeCompare(getLanguageLabel(b).toLowerCase())
+		|| a.url.localeCompare(b.url)
+	);
+}
+
+/**
+ * Composes the content of several sources into a single document.
+ * Each source becomes a section with a generated heading; a single source is used as-is.
+ * @param parts Sources and their content, already in composition order
+ */
+function composeInstructions(parts: { source: InstructionSource; content: string }[]): string {
+	if (parts.length === 1) {
+		return parts[0].content;
+	}
+
+	const sections = parts.map(({ source, content }) => {
+		const heading = source.heading ?? getLanguageLabel(source);
+		const body = content.trim();
+		return heading ? `## ${heading}\n\n${body}` : body;
+	});
+	return sections.join('\n\n') + '\n';
+}
+
+/** Matches a YAML frontmatter block at the start of a document */
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Frontmatter of an instructions file. Values are kept as raw YAML text
+ * (including continuation lines) so keys the extension doesn't know survive unchanged.
+ */
+interface Frontmatter {
+	attributes: Record<string, string>;
+	body: string;
+}
+
+/**
+ * Checks whether a source is written to a path-scoped `.instructions.md` file
+ */
+function isPathScoped(source: InstructionSource): boolean {
+	return source.applyTo !== undefined && source.applyTo !== false;
+}
+
+/**
+ * Gets the default base name of a source's path-scoped instructions file
+ * (e.g. "typescript", "typescript-react", "general")
+ */
+function getScopedInstructionsName(source: InstructionSource): string {
+	if (source.id) {
+		return slugify(source.id);
+	}
+	const language = source.language === '*' ? 'general' : source.language;
+	return slugify([language, source.framework].filter(Boolean).join('-'));
+}
+
+/**
+ * Splits a document into its frontmatter and body.
+ * Content without frontmatter is returned as the body with no attributes.
+ * @throws Error if the frontmatter is unterminated or contains lines that aren't `key: value` pairs
+ */
+function parseFrontmatter(content: string): Frontmatter {
+	if (!/^---[ \t]*\r?\n/.test(content)) {
+		return { attributes: {}, body: content };
+	}
+
+	const match = FRONTMATTER_PATTERN.exec(content);
+	if (!match) {
+		throw new Error('Frontmatter is not terminated by a "---" line');
+	}
+
+	const attributes: Record<string, string> = {};
+	let currentKey: string | undefined;
+	for (const line of (match[1] ?? '').split(/\r?\n/)) {
+		if (!line.trim() || line.trimStart().startsWith('#')) {
+			continue;
+		}
+		// Indented lines and list items continue the previous value
+		if (/^\s/.test(line) || line.startsWith('- ')) {
+			if (!currentKey) {
+				throw new Error(`Unexpected frontmatter line: ${line.trim()}`);
+			}
+			attributes[currentKey] += `\n${line}`;
+			continue;
+		}
+		const pair = /^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/.exec(line);
+		if (!pair) {
+			throw new Error(`Invalid frontmatter line: ${line}`);
+		}
+		currentKey = pair[1];
+		attributes[currentKey] = (pair[2] ?? '').trimEnd();
+	}
+
+	if (attributes.applyTo !== undefined && !parseApplyTo(attributes.applyTo)) {
+		throw new Error('Frontmatter "applyTo" must be a non-empty glob string');
+	}
+
+	return { attributes, body: content.slice(match[0].length) };
+}
+
+/**
+ * Parses a raw `applyTo` value into its comma-separated globs, or undefined if it isn't a plain string
+ */
+function parseApplyTo(rawValue: string): string[] | undefined {
+	let value = rawValue.trim();
+	if (rawValue.includes('\n') || value.startsWith('[')) {
+		return undefined;
+	}
+	const quoted = /^(["'])(.*)\1$/.exec(value);
+	if (quoted) {
+		value = quoted[1] === '"' ? quoted[2].replace(/\\(["\\])/g, '$1') : quoted[2].replace(/''/g, "'");
+	}
+	const globs = value.split(',').map(glob => glob.trim()).filter(glob => glob.length > 0);
+	return globs.length > 0 ? globs : undefined;
+}
+
+/**
+ * Formats globs as a quoted `applyTo` value (a bare `**` would be read as a YAML alias)
+ */
+function formatApplyTo(globs: string[]): string {
+	return `"${globs.join(',').replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Serializes frontmatter attributes and a body back into a document
+ */
+function serializeFrontmatter({ attributes, body }: Frontmatter): string {
+	const lines = Object.entries(attributes).map(([key, value]) => !value || value.startsWith('\n') ? `${key}:${value}` : `${key}: ${value}`);
+	return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n${body.replace(/^(\r?\n)+/, '')}` : body;
+}
+
+/**
+ * Gets the `applyTo` globs configured for a source.
+ * `true` derives them from the language's detection patterns ('*' applies to every file).
+ * @throws Error if there are no detection patterns to derive the globs from
+ */
+function getApplyToGlobs(source: InstructionSource, languagePatterns: Record<string, LanguagePattern[]>): string[] {
+	if (typeof source.applyTo === 'string') {
+		return [source.applyTo];
+	}
+	if (Array.isArray(source.applyTo)) {
+		return source.applyTo;
+	}
+	if (source.language === '*') {
+		return ['**'];
+	}
+
+	const patterns = Object.entries(languagePatterns)
+		.find(([language]) => language.toLowerCase() === source.language.toLowerCase())?.[1] ?? [];
+	const globs = patterns.map(pattern => typeof pattern === 'string' ? pattern : pattern.pattern);
+	if (globs.length === 0) {
+		throw new Error(`No detection patterns for ${source.language} to derive "applyTo" from; set it explicitly`);
+	}
+	return globs;
+}
+
+/**
+ * Builds the content of a path-scoped instructions file from its composed sections.
+ * Frontmatter in the fetched content is validated and merged (the first source wins per key);
+ * `applyTo` is the union of the sources' globs. A source with `applyTo: true` keeps an
+ * `applyTo` from its fetched frontmatter instead of deriving one.
+ * @param parts Sources and their content, already in composition order
+ */
+function composeScopedInstructions(
+	parts: { source: InstructionSource; content: string }[],
+	languagePatterns: Record<string, LanguagePattern[]>
+): string {
+	const attributes: Record<string, string> = {};
+	const globs: string[] = [];
+	const sections = parts.map(({ source, content }) => {
+		let frontmatter: Frontmatter;
+		try {
+			frontmatter = parseFrontmatter(content);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Invalid frontmatter in ${source.url}: ${message}`);
+		}
+
+		const fetchedGlobs = frontmatter.attributes.applyTo !== undefined ? parseApplyTo(frontmatter.attributes.applyTo) : undefined;
+		const sourceGlobs = source.applyTo === true && fetchedGlobs ? fetchedGlobs : getApplyToGlobs(source, languagePatterns);
+		for (const glob of sourceGlobs) {
+			if (!globs.includes(glob)) {
+				globs.push(glob);
+			}
+		}
+		for (const [key, value] of Object.entries(frontmatter.attributes)) {
+			if (!(key in attributes)) {
+				attributes[key] = value;
+			}
+		}
+		return { source, content: frontmatter.body };
+	});
+
+	// applyTo goes first, as in Copilot's own examples
+	delete attributes.applyTo;
+	return serializeFrontmatter({ attributes: { applyTo: formatApplyTo(globs), ...attributes }, body: composeInstructions(sections) });
+}
+
+/**
+ * Describes how instructions are written for one AI assistant
+ */
+interface OutputAdapter {
+	/** Destination folder (relative to the workspace folder) and file for a source */
+	getDestination(source: InstructionSource): { folder: string; file: string };
+	/** True if every source shares one file, each in its own managed block */
+	shared: boolean;
+	/** Renders the composed instructions into the assistant's format */
+	render(content: string, source: InstructionSource, label: string): string;
+}
+
+/**
+ * Output adapters per target. Copilot uses the source's destination settings;
+ * the other assistants' files are at fixed locations.
+ */
+const OUTPUT_ADAPTERS: Record<InstructionTarget, OutputAdapter> = {
+	copilot: {
+		getDestination: source => getDestinationPath(source),
+		shared: false,
+		render: content => content
+	},
+	agents: {
+		getDestination: () => ({ folder: '', file: 'AGENTS.md' }),
+		shared: true,
+		render: renderPlainInstructions
+	},
+	claude: {
+		getDestination: () => ({ folder: '', file: 'CLAUDE.md' }),
+		shared: true,
+		render: renderPlainInstructions
+	},
+	cursor: {
+		getDestination: source => ({ folder: '.cursor/rules', file: `${getScopedInstructionsName(source)}.mdc` }),
+		shared: false,
+		render: renderCursorRule
+	},
+	windsurf: {
+		getDestination: () => ({ folder: '', file: '.windsurfrules' }),
+		shared: true,
+		render: renderPlainInstructions
+	}
+};
+
+/**
+ * Splits composed content into the `applyTo` globs and the body.
+ * Only path-scoped content carries frontmatter written by the extension.
+ */
+function splitScopedInstructions(content: string, source: InstructionSource): { globs?: string[]; description?: string; body: string } {
+	if (!isPathScoped(source)) {
+		return { body: content };
+	}
+	const { attributes, body } = parseFrontmatter(content);
+	return {
+		globs: attributes.applyTo !== undefined ? parseApplyTo(attributes.applyTo) : undefined,
+		description: attributes.description,
+		body: body.replace(/^(\r?\n)+/, '')
+	};
+}
+
+/**
+ * Renders instructions as plain Markdown for assistants without frontmatter support
+ * (AGENTS.md, CLAUDE.md, .windsurfrules). Path scoping is kept as a sentence.
+ */
+function renderPlainInstructions(content: string, source: InstructionSource): string {
+	const { globs, body } = splitScopedInstructions(content, source);
+	if (!globs || globs.includes('**')) {
+		return body;
+	}
+	return `Apply these instructions to files matching ${globs.map(glob => `\`${glob}\``).join(', ')}.\n\n${body}`;
+}
+
+/**
+ * Renders instructions as a Cursor rule (`.mdc`) with `description`, `globs` and `alwaysApply` frontmatter.
+ * Path-scoped sources are attached to their globs; all others always apply.
+ */
+function renderCursorRule(content: string, source: InstructionSource, label: string): string {
+	const { globs, description, body } = splitScopedInstructions(content, source);
+	const scoped = globs !== undefined && !globs.includes('**');
+	return serializeFrontmatter({
+		attributes: {
+			description: description ?? `${label} instructions`,
+			// Cursor expects an unquoted, comma-separated list
+			globs: scoped ? globs.join(',') : '',
+			alwaysApply: scoped ? 'false' : 'true'
+		},
+		body
+	});
+}
+
+/**
+ * Gets the targets a source is written to: its own `targets`, or instructionSync.targets
+ */
+function getTargets(source: InstructionSource): InstructionTarget[] {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const targets = source.targets ?? config.get<InstructionTarget[]>('targets', ['copilot']);
+	return [...new Set(targets)].filter(target => target in OUTPUT_ADAPTERS);
+}
+
+/**
+ * Gets a copy of a source that describes its destination for a target,
+ * so the lock file, drift detection and managed blocks work the same for every target.
+ * Files shared by all sources (e.g. AGENTS.md) always use managed blocks.
+ */
+function getTargetSource(source: InstructionSource, target: InstructionTarget): InstructionSource {
+	if (target === 'copilot') {
+		return source;
+	}
+	const adapter = OUTPUT_ADAPTERS[target];
+	const { folder, file } = adapter.getDestination(source);
+	return {
+		...source,
+		applyTo: undefined,
+		destinationFolder: folder,
+		destinationFile: file,
+		managed: adapter.shared,
+		id: adapter.shared ? source.id ?? getScopedInstructionsName(source) : source.id
+	};
+}
+
+/**
+ * How the local file relates to the remote content and the last synced content
+ */
+type DriftState =
+	/** Local file already matches the remote content */
+	| 'unchanged'
+	/** Local file does not exist yet */
+	| 'missing'
+	/** Local file was never synced, so its origin is unknown */
+	| 'untracked'
+	/** Only the remote content changed since the last sync */
+	| 'upstreamChanged'
+	/** Only the local file was edited since the last sync */
+	| 'localChanged'
+	/** Both the local file and the remote content changed since the last sync */
+	| 'bothChanged';
+
+/**
+ * Classifies local drift by comparing the local and remote content against
+ * the hash of the last synced content recorded in the lock file.
+ */
+function detectDrift(localContent: string | null, remoteContent: string, lastSyncedSha256?: string): DriftState {
+	if (localContent === remoteContent) {
+		return 'unchanged';
+	}
+	if (localContent === null) {
+		return 'missing';
+	}
+	if (!lastSyncedSha256) {
+		return 'untracked';
+	}
+	if (computeSha256(localContent) === lastSyncedSha256) {
+		return 'upstreamChanged';
+	}
+	if (computeSha256(remoteContent) === lastSyncedSha256) {
+		return 'localChanged';
+	}
+	return 'bothChanged';
+}
+
+/**
+ * A changed region between a base text and a modified text:
+ * base lines [baseStart, baseEnd) were replaced by modified lines [start, end)
+ */
+interface DiffHunk {
+	baseStart: number;
+	baseEnd: number;
+	start: number;
+	end: number;
+}
+
+/**
+ * Largest number of cells of the LCS table diffLines computes (64 MB); larger differences are
+ * reported as one changed region, which a three-way merge turns into a conflict
+ */
+const MAX_DIFF_CELLS = 16 * 1024 * 1024;
+
+/**
+ * Computes the changed regions between two line arrays using a longest common subsequence.
+ * Adjacent changes are coalesced, so hunks never touch each other.
+ */
+function diffLines(base: string[], modified: string[]): DiffHunk[] {
+	// Only the lines between the common prefix and suffix need the quadratic table
+	let offset = 0;
+	while (offset < base.length && offset < modified.length && base[offset] === modified[offset]) {
+		offset++;
+	}
+	let n = base.length;
+	let m = modified.length;
+	while (n > offset && m > offset && base[n - 1] === modified[m - 1]) {
+		n--;
+		m--;
+	}
+	if (n === offset && m === offset) {
+		return [];
+	}
+	if ((n - offset + 1) * (m - offset + 1) > MAX_DIFF_CELLS) {
+		return [{ baseStart: offset, baseEnd: n, start: offset, end: m }];
+	}
+
+	const width = m - offset + 1;
+	// lcs[(i - offset) * width + j - offset] = LCS length of base[i..n) and modified[j..m)
+	const lcs = new Uint32Array((n - offset + 1) * width);
+	const cell = (i: number, j: number) => (i - offset) * width + j - offset;
+	for (let i = n - 1; i >= offset; i--) {
+		for (let j = m - 1; j >= offset; j--) {
+			lcs[cell(i, j)] = base[i] === modified[j]
+				? lcs[cell(i + 1, j + 1)] + 1
+				: Math.max(lcs[cell(i + 1, j)], lcs[cell(i, j + 1)]);
+		}
+	}
+
+	const hunks: DiffHunk[] = [];
+	let current: DiffHunk | null = null;
+	let i = offset;
+	let j = offset;
+	while (i < n || j < m) {
+		if (i < n && j < m && base[i] === modified[j]) {
+			current = null;
+			i++;
+			j++;
+			continue;
+		}
+		if (!current) {
+			current = { baseStart: i, baseEnd: i, start: j, end: j };
+			hunks.push(current);
+		}
+		if (j < m && (i >= n || lcs[cell(i, j + 1)] >= lcs[cell(i + 1, j)])) {
+			j++;
+			current.end = j;
+		} else {
+			i++;
+			current.baseEnd = i;
+		}
+	}
+	return hunks;
+}
+
+/**
+ * Result of a three-way merge
+ */
+interface MergeResult {
+	content: string;
+	/** Number of conflicting regions marked with conflict markers */
+	conflicts: number;
+}
+
+/**
+ * Merges local and remote edits of a common base line by line.
+ * Non-overlapping changes from both sides are combined; overlapping changes
+ * that differ are written with Git-style conflict markers.
+ */
+function mergeThreeWay(base: string, local: string, remote: string, remoteLabel: string = 'Remote'): MergeResult {
+	const baseLines = base.split('\n');
+	const sides = [local.split('\n'), remote.split('\n')];
+	const hunks = sides
+		.flatMap((lines, side) => diffLines(baseLines, lines).map(hunk => ({ ...hunk, side })))
+		.sort((a, b) => a.baseStart - b.baseStart || a.side - b.side);
+
+	const output: string[] = [];
+	let conflicts = 0;
+	let basePos = 0;
+	let index = 0;
+
+	while (index < hunks.length) {
+		// Group hunks whose base ranges overlap or touch
+		const group = [hunks[index++]];
+		const groupStart = group[0].baseStart;
+		let groupEnd = group[0].baseEnd;
+		while (index < hunks.length && hunks[index].baseStart <= groupEnd) {
+			groupEnd = Math.max(groupEnd, hunks[index].baseEnd);
+			group.push(hunks[index++]);
+		}
+
+		output.push(...baseLines.slice(basePos, groupStart));
+		basePos = groupEnd;
+
+		// Reconstruct each side's version of the grouped base range
+		const versions = sides.map((lines, side) => {
+			const sideHunks = group.filter(h => h.side === side);
+			if (sideHunks.length === 0) {
+				return baseLines.slice(groupStart, groupEnd);
+			}
+			const first = sideHunks[0];
+			const last = sideHunks[sideHunks.length - 1];
+			return lines.slice(first.start - (first.baseStart - groupStart), last.end + (groupEnd - last.baseEnd));
+		});
+		const changedSides = new Set(group.map(h => h.side));
+
+		if (changedSides.size === 1 || versions[0].join('\n') === versions[1].join('\n')) {
+			output.push(...versions[changedSides.has(0) ? 0 : 1]);
+		} else {
+			conflicts++;
+			output.push('<<<<<<< Local', ...versions[0], '=======', ...versions[1], `>>>>>>> ${remoteLabel}`);
+		}
+	}
+
+	output.push(...baseLines.slice(basePos));
+	return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Gets the workspace state key under which the last synced content of a destination is kept
+ */
+function getSyncedContentKey(workspaceFolder: vscode.WorkspaceFolder, source: InstructionSource, blockId?: string): string {
+	return `instructionSync.synced:${workspaceFolder.uri.toString()}::${getLockKey(getDestinationPath(source).fullPath, blockId)}`;
+}
+
+/**
+ * Gets the last synced content of a destination, used as the base for three-way merges.
+ * Only available on machines that performed the previous sync.
+ */
+function getLastSyncedContent(
+	workspaceFolder: vscode.WorkspaceFolder,
+	source: InstructionSource,
+	lastSyncedSha256?: string,
+	blockId?: string
+): string | undefined {
+	const content = extensionContext?.workspaceState.get<string>(getSyncedContentKey(workspaceFolder, source, blockId));
+	if (content === undefined || !lastSyncedSha256 || computeSha256(content) !== lastSyncedSha256) {
+		return undefined;
+	}
+	return content;
+}
+
+/**
+ * Records content synced from upstream: its provenance in the lock file and
+ * a local copy that serves as the base for future three-way merges.
+ */
+async function recordSyncedContent(
+	workspaceFolder: vscode.WorkspaceFolder,
+	parts: SourceContent[],
+	syncedContent: string,
+	blockId?: string
+): Promise<void> {
+	await recordLockEntry(workspaceFolder, parts, syncedContent, blockId);
+	await extensionContext?.workspaceState.update(getSyncedContentKey(workspaceFolder, parts[0].source, blockId), syncedContent);
+}
+
+/**
+ * Asks how to resolve a destination that was edited locally while the remote content
+ * also changed (or that was never synced before).
+ * @returns The chosen resolution, or undefined if the prompt was dismissed
+ */
+async function promptDriftResolution(
+	workspaceFolder: vscode.WorkspaceFolder,
+	source: InstructionSource,
+	label: string,
+	canMerge: boolean,
+	showDiff: () => Promise<boolean>
+): Promise<'keepLocal' | 'takeRemote' | 'merge' | undefined> {
+	const { file } = getDestinationPath(source);
+	const message = canMerge
+		? `Instruction Sync: ${file} in "${workspaceFolder.name}" has local edits and the ${label} instructions changed upstream. How do you want to resolve this?`
+		: `Instruction Sync: ${file} in "${workspaceFolder.name}" differs from the ${label} instructions and was not synced before. How do you want to resolve this?`;
+
+	const options = canMerge ? ['Keep Local', 'Take Remote', 'Merge', 'Show Diff'] : ['Keep Local', 'Take Remote', 'Show Diff'];
+	let result = await vscode.window.showWarningMessage(message, { modal: false }, ...options);
+
+	// Accepting the previewed change takes the remote content; otherwise ask again
+	while (result === 'Show Diff') {
+		if (await showDiff()) {
+			return 'takeRemote';
+		}
+		result = await vscode.window.showWarningMessage(message, { modal: false }, ...options);
+	}
+
+	switch (result) {
+		case 'Keep Local': return 'keepLocal';
+		case 'Take Remote': return 'takeRemote';
+		case 'Merge': return 'merge';
+		default: return undefined;
+	}
+}
+
+/**
+ * Opens a diff editor between a destination file and its content after the change,
+ * and waits until the change is accepted or rejected, from the diff editor's title bar
+ * or a notification. Closing the diff editor or dismissing the notification rejects the change.
+ * @param fileContent Current content of the file, or null if it doesn't exist yet
+ * @returns True if the change was accepted
+ */
+async function showPendingDiff(
+	workspaceFolder: vscode.WorkspaceFolder,
+	destination: InstructionSource,
+	fileContent: string | null,
+	newContent: string,
+	label: string
+): Promise<boolean> {
+	const { file, fullPath } = getDestinationPath(destination);
+	const id = ++pendingChangeCount;
+	const pendingPath = `/${workspaceFolder.name}/${fullPath}`;
+	const incoming = vscode.Uri.from({ scheme: PENDING_SCHEME, path: pendingPath, query: `${id}` });
+	// A file that doesn't exist yet is compared with an empty document
+	const local = fileContent === null
+		? vscode.Uri.from({ scheme: PENDING_SCHEME, path: pendingPath, query: `${id}-empty` })
+		: vscode.Uri.joinPath(workspaceFolder.uri, fullPath);
+
+	const decision = new Promise<boolean>(resolve => {
+		pendingChanges.set(incoming.toString(), { content: newContent, resolve });
+	});
+	const tabListener = vscode.window.tabGroups.onDidChangeTabs(event => {
+		if (event.closed.some(tab => isPendingChangeTab(tab, incoming))) {
+			resolvePendingChange(incoming, false);
+		}
+	});
+
+	try {
+		await vscode.commands.executeCommand('vscode.diff', local, incoming, `${file} (${workspaceFolder.name}) ↔ ${label} instructions`);
+		void vscode.window.showInformationMessage(
+			`Instruction Sync: Review the ${label} changes to ${file} in "${workspaceFolder.name}"`,
+			'Accept',
+			'Reject'
+		).then(choice => resolvePendingChange(incoming, choice === 'Accept'));
+		return await decision;
+	} finally {
+		tabListener.dispose();
+		// Drops the incoming document and closes its diff editor if opening it failed
+		resolvePendingChange(incoming, false);
+	}
+}
+
+/**
+ * Checks whether a tab is the diff editor of a previewed change
+ */
+function isPendingChangeTab(tab: vscode.Tab, incoming: vscode.Uri): boolean {
+	return tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === incoming.toString();
+}
+
+/**
+ * Accepts or rejects a previewed change and closes its diff editor
+ * @param incoming URI of the change's incoming content; defaults to the active editor's document
+ */
+function resolvePendingChange(incoming: vscode.Uri | undefined, accepted: boolean): void {
+	incoming ??= vscode.window.activeTextEditor?.document.uri;
+	const pending = incoming && pendingChanges.get(incoming.toString());
+	if (!incoming || !pending) {
+		return;
+	}
+	pendingChanges.delete(incoming.toString());
+	pending.resolve(accepted);
+
+	const tabs = vscode.window.tabGroups.all.flatMap(group => group.tabs).filter(tab => isPendingChangeTab(tab, incoming));
+	void vscode.window.tabGroups.close(tabs);
+}
+
+/**
+ * Writes rendered instructions to one destination file.
+ * Local edits are detected against the last synced content recorded in the lock file
+ * and are never overwritten without an explicit choice.
+ * @returns True if the file was written
+ */
+async function syncDestination(
+	workspaceFolder: vscode.WorkspaceFolder,
+	destination: InstructionSource,
+	parts: SourceContent[],
+	remoteContent: string,
+	label: string,
+	showNotifications: boolean,
+	requireConfirmation: boolean,
+	session?: SyncSession
+): Promise<boolean> {
+	const folderName = workspaceFolder.name;
+	const fileContent = await getLocalInstructions(workspaceFolder, destination);
+	const { file, fullPath } = getDestinationPath(destination);
+
+	// Managed sources only own their marked block; everything else in the file is left alone
+	const blockId = getManagedBlockId(destination, fileContent);
+	const localContent = blockId && fileContent !== null ? extractManagedBlock(fileContent, blockId) : fileContent;
+
+	const lock = await readLockFile(workspaceFolder);
+	const lastSyncedSha256 = lock.entries[getLockKey(fullPath, blockId)]?.sha256;
+	const drift = detectDrift(localContent, remoteContent, lastSyncedSha256);
+
+	if (drift === 'unchanged') {
+		// Content matches, but make sure its provenance is recorded
+		await recordSyncedContent(workspaceFolder, parts, remoteContent, blockId);
+		if (showNotifications) {
+			vscode.window.showInformationMessage(
+				`Instruction Sync: Instructions are already up to date for ${label} in "${folderName}"`
+			);
+		}
+		return false;
+	}
+
+	if (drift === 'localChanged') {
+		// Upstream hasn't moved since the last sync, so the local edits are kept as-is
+		if (showNotifications) {
+			vscode.window.showInformationMessage(
+				`Instruction Sync: Keeping local edits to ${file} in "${folderName}" (${label} instructions unchanged upstream)`
+			);
+		}
+		return false;
+	}
+
+	let contentToWrite = remoteContent;
+
+	if (drift === 'bothChanged' || drift === 'untracked') {
+		// Local edits are at stake, so always ask regardless of confirmation settings
+		const baseContent = getLastSyncedContent(workspaceFolder, destination, lastSyncedSha256, blockId);
+		const resolution = await promptDriftResolution(
+			workspaceFolder, destination, label, baseContent !== undefined,
+			() => showPendingDiff(workspaceFolder, destination, fileContent, renderDestinationFile(fileContent, remoteContent, destination, blockId), label)
+		);
+
+		if (resolution === undefined) {
+			return false;
+		}
+
+		if (resolution === 'keepLocal') {
+			// Remember this upstream revision so the same prompt isn't shown again
+			await recordSyncedContent(workspaceFolder, parts, remoteContent, blockId);
+			return false;
+		}
+
+		if (resolution === 'merge' && baseContent !== undefined) {
+			const merged = mergeThreeWay(baseContent, localContent!, remoteContent, `Remote (${label})`);
+			contentToWrite = merged.content;
+
+			if (merged.conflicts > 0) {
+				await writeLocalInstructions(workspaceFolder, contentToWrite, destination, blockId);
+				await recordSyncedContent(workspaceFolder, parts, remoteContent, blockId);
+				const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(workspaceFolder.uri, fullPath));
+				await vscode.window.showTextDocument(document);
+				vscode.window.showWarningMessage(
+					`Instruction Sync: Merged ${file} in "${folderName}" with ${merged.conflicts} conflict(s) to resolve`
+				);
+				return true;
+			}
+		}
+	} else if (requireConfirmation && !session?.confirmAll) {
+		// Upstream changed (or the file is new) and there are no local edits to lose
+		const config = vscode.workspace.getConfiguration('instructionSync');
+		const confirmBeforeSync = await getEffectiveFlag('confirmBeforeSync');
+
+		if (confirmBeforeSync.value) {
+			const action = fileContent === null ? 'Create' : blockId && drift === 'missing' ? 'Add a managed block to' : 'Update';
+			const message = `Instruction Sync: ${action} ${file} in "${folderName}" with ${label} instructions?`;
+
+			const result = await vscode.window.showWarningMessage(
+				message,
+				{ modal: false },
+				'Yes',
+				'Yes to All',
+				'No',
+				'Show Diff',
+				// Confirmation enforced by the remote configuration can't be disabled
+				...(confirmBeforeSync.source === 'policy' ? [] : ['Always (disable confirmation)'])
+			);
+
+			if (result === 'No' || result === undefined) {
+				return false;
+			}
+
+			if (result === 'Show Diff') {
+				const preview = renderDestinationFile(fileContent, contentToWrite, destination, blockId);
+				if (!await showPendingDiff(workspaceFolder, destination, fileContent, preview, label)) {
+					return false;
+				}
+			}
+
+			if (result === 'Yes to All' && session) {
+				session.confirmAll = true;
+			}
+
+			if (result === 'Always (disable confirmation)') {
+				await config.update('confirmBeforeSync', false, vscode.ConfigurationTarget.Global);
+			}
+		}
+	}
+
+	await writeLocalInstructions(workspaceFolder, contentToWrite, destination, blockId);
+	await recordSyncedContent(workspaceFolder, parts, remoteContent, blockId);
+	if (showNotifications) {
+		vscode.window.showInformationMessage(
+			`Instruction Sync: Updated ${file} in "${folderName}" from ${label} configuration`
+		);
+	}
+	return true;
+}
+
+/**
+ * Synchronizes instructions for one destination file.
+ * When several sources share the destination, their content is composed into
+ * one document in a stable order (see sortSourcesForComposition), which is then
+ * written for each of the sources' targets (see OUTPUT_ADAPTERS).
+ */
+async function syncInstructions(
+	workspaceFolder: vscode.WorkspaceFolder,
+	sources: InstructionSource[],
+	showNotifications: boolean = true,
+	requireConfirmation: boolean = true,
+	session?: SyncSession
+): Promise<boolean> {
+	const ordered = sortSourcesForComposition(sources);
+	// Destination and managed block settings are taken from the first source
+	const primary = ordered[0];
+	const label = ordered.map(getLanguageLabel).join(' + ');
+	const folderName = workspaceFolder.name;
+
+	try {
+		const parts: SourceContent[] = [];
+		const sections: { source: InstructionSource; content: string }[] = [];
+		for (const source of ordered) {
+			const fetched = await fetchContentWithMetadata(source.url, { ref: source.ref, headers: source.headers });
+
+			// Resolve include directives, then expand template placeholders
+			const resolved = await resolveIncludes(fetched.content, resolveSourceUrl(source), source.headers);
+			// The pinned hash covers included files too, but not the workspace-specific template values
+			const sha256 = computeSha256(resolved.content);
+			verifySha256(source, sha256);
+			parts.push({ source, fetched, includes: resolved.includes, sha256 });
+
+			const content = source.template === false || !resolved.content.includes('{{')
+				? resolved.content
+				: expandTemplate(resolved.content, await getTemplateVariables(workspaceFolder, session));
+			sections.push({ source, content });
+		}
+		const composedContent = isPathScoped(primary)
+			? composeScopedInstructions(sections, getLanguagePatterns(await fetchRemoteConfig()))
+			: composeInstructions(sections);
+
+		// Every target's file is tracked as its own destination
+		let updated = false;
+		for (const target of getTargets(primary)) {
+			const destination = getTargetSource(primary, target);
+			// Lock entries take their destination from the first part
+			const targetParts = parts.map((part, index) => index === 0 ? { ...part, source: destination } : part);
+			const content = OUTPUT_ADAPTERS[target].render(composedContent, primary, label);
+			const written = await syncDestination(
+				workspaceFolder, destination, targetParts, content, withStaleNote(label, parts.map(part => part.fetched)), showNotifications, requireConfirmation, session
+			);
+			updated = written || updated;
+		}
+		return updated;
+	} catch (error) {
+		if (error instanceof ConnectivityError) {
+			// Already reported once when going offline
+			return false;
+		}
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		vscode.window.showErrorMessage(
+			`Instruction Sync: Failed to sync instructions for ${label} in "${folderName}": ${errorMessage}`
+		);
+		return false;
+	}
+}
+
+/** A file listed in a directory source */
+interface BundleFile {
+	/** Path relative to the source directory, with forward slashes */
+	path: string;
+	/** URL or local path the file's content is fetched from */
+	url: string;
+}
+
+/** Maximum number of files mirrored from a directory source */
+const MAX_BUNDLE_FILES = 200;
+
+/**
+ * Checks if a source mirrors a whole directory instead of a single file
+ */
+function isBundleSource(source: InstructionSource): boolean {
+	if (source.type !== undefined) {
+		return source.type === 'directory';
+	}
+	return parseGitHubTreeUrl(source.url) !== null
+		|| parseGitLabUrl(source.url)?.type === 'directory'
+		|| parseBitbucketUrl(source.url)?.type === 'directory'
+		|| (isLocalPath(source.url) && /[\\/]$/.test(source.url));
+}
+
+/**
+ * Parses a GitHub tree URL (https://github.com/{owner}/{repo}/tree/{ref}/{path}) into
+ * the REST API base and repository coordinates. The ref must not contain slashes.
+ */
+function parseGitHubTreeUrl(url: string): { apiBase: string; owner: string; repo: string; ref: string; path: string } | null {
+	const { isGitHub } = isGitHubUrl(url);
+	if (!isGitHub) {
+		return null;
+	}
+
+	const parsedUrl = new URL(url);
+	const match = /^\/([^/]+)\/([^/]+)\/tree\/([^/]+)(?:\/(.*?))?\/?$/.exec(parsedUrl.pathname);
+	if (!match) {
+		return null;
+	}
+
+	return {
+		apiBase: getGitHubApiBase(parsedUrl),
+		owner: match[1],
+		repo: match[2],
+		ref: decodeURIComponent(match[3]),
+		path: match[4] ? decodeURIComponent(match[4]) : ''
+	};
+}
+
+/**
+ * Gets the path below a directory, or undefined if the path is outside of it
+ */
+function getPathBelow(directory: string, filePath: string): string | undefined {
+	const prefix = directory.replace(/^\/+|\/+$/g, '');
+	const normalized = filePath.replace(/^\/+/, '');
+	if (!prefix) {
+		return normalized;
+	}
+	return normalized.startsWith(`${prefix}/`) ? normalized.slice(prefix.length + 1) : undefined;
+}
+
+/**
+ * Lists the files of a directory source: a GitHub or GitLab tree URL, an Azure DevOps
+ * items API URL whose `path` is a folder, a Bitbucket folder URL, or a local directory
+ */
+async function listBundleFiles(url: string, headers?: Record<string, string>): Promise<BundleFile[]> {
+	let files: BundleFile[];
+
+	const gitHubTree = parseGitHubTreeUrl(url);
+	if (gitHubTree) {
+		const { apiBase, owner, repo, ref, path: directory } = gitHubTree;
+		const repoApi = `${apiBase}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+		const { content } = await fetchContentWithMetadata(
+			`${repoApi}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+			{ validateAsInstructions: false, accept: 'application/vnd.github+json', headers }
+		);
+		const tree = JSON.parse(content) as { tree?: { path: string; type: string }[]; truncated?: boolean };
+		if (tree.truncated) {
+			throw new Error(`Repository tree of ${owner}/${repo} is too large to list`);
+		}
+		files = (tree.tree ?? [])
+			.filter(entry => entry.type === 'blob')
+			.map(entry => ({ entry, relative: getPathBelow(directory, entry.path) }))
+			.filter(({ relative }) => relative !== undefined)
+			.map(({ entry, relative }) => ({
+				path: relative!,
+				url: `${repoApi}/contents/${entry.path.split('/').map(encodeURIComponent).join('/')}?ref=${encodeURIComponent(ref)}`
+			}));
+	} else if (isAzureDevOpsUrl(url)) {
+		const listUrl = new URL(url);
+		const directory = listUrl.searchParams.get('path');
+		if (!directory) {
+			throw new Error('Azure DevOps directory sources need an items API URL with a "path" parameter');
+		}
+		listUrl.searchParams.set('recursionLevel', 'Full');
+		listUrl.searchParams.delete('$format');
+		listUrl.searchParams.delete('download');
+		const { content } = await fetchContentWithMetadata(listUrl.toString(), { validateAsInstructions: false, accept: 'application/json', headers });
+		const items = JSON.parse(content) as { value?: { path: string; isFolder?: boolean }[] };
+		files = (items.value ?? [])
+			.filter(item => !item.isFolder)
+			.map(item => ({ item, relative: getPathBelow(directory, item.path) }))
+			.filter(({ relative }) => relative !== undefined)
+			.map(({ item, relative }) => {
+				const fileUrl = new URL(url);
+				fileUrl.searchParams.set('path', item.path);
+				fileUrl.searchParams.delete('recursionLevel');
+				return { path: relative!, url: fileUrl.toString() };
+			});
+	} else if (parseGitLabUrl(url)) {
+		const location = parseGitLabUrl(url)!;
+		const treeUrl = new URL(`${location.apiBase}/projects/${encodeURIComponent(location.project)}/repository/tree`);
+		treeUrl.searchParams.set('recursive', 'true');
+		treeUrl.searchParams.set('per_page', '100');
+		if (location.path) {
+			treeUrl.searchParams.set('path', location.path);
+		}
+		if (location.ref) {
+			treeUrl.searchParams.set('ref', location.ref);
+		}
+		const entries: { path: string; type: string }[] = [];
+		for (let page = 1; ; page++) {
+			treeUrl.searchParams.set('page', String(page));
+			const { content } = await fetchContentWithMetadata(treeUrl.toString(), { validateAsInstructions: false, accept: 'application/json', headers });
+			const pageEntries = JSON.parse(content) as { path: string; type: string }[];
+			entries.push(...pageEntries);
+			if (pageEntries.length < 100 || entries.length > MAX_BUNDLE_FILES) {
+				break;
+			}
+		}
+		files = entries
+			.filter(entry => entry.type === 'blob')
+			.map(entry => ({ entry, relative: getPathBelow(location.path, entry.path) }))
+			.filter(({ relative }) => relative !== undefined)
+			.map(({ entry, relative }) => ({ path: relative!, url: getGitLabFileUrl(location, entry.path) }));
+	} else if (parseBitbucketUrl(url)) {
+		const location = parseBitbucketUrl(url)!;
+		const { apiBase, project, repo, ref, path: directory } = location;
+		const paths: string[] = [];
+		if (location.isServer) {
+			// Lists file paths relative to the folder, across all subfolders
+			const filesUrl = new URL(`${apiBase}/projects/${encodeURIComponent(project)}/repos/${encodeURIComponent(repo)}/files/${encodePath(directory)}`);
+			filesUrl.searchParams.set('limit', String(MAX_BUNDLE_FILES + 1));
+			if (ref) {
+				filesUrl.searchParams.set('at', ref);
+			}
+			const { content } = await fetchContentWithMetadata(filesUrl.toString(), { validateAsInstructions: false, accept: 'application/json', headers });
+			const listing = JSON.parse(content) as { values?: string[] };
+			paths.push(...(listing.values ?? []).map(file => directory ? `${directory}/${file}` : file));
+		} else {
+			let next: string | undefined = `${getBitbucketFileUrl(location, directory).replace(/\/?$/, '/')}?max_depth=10&pagelen=100`;
+			while (next && paths.length <= MAX_BUNDLE_FILES) {
+				const { content } = await fetchContentWithMetadata(next, { validateAsInstructions: false, accept: 'application/json', headers });
+				const listing = JSON.parse(content) as { values?: { path: string; type: string }[]; next?: string };
+				paths.push(...(listing.values ?? []).filter(entry => entry.type === 'commit_file').map(entry => entry.path));
+				next = listing.next;
+			}
+		}
+		files = paths
+			.map(filePath => ({ filePath, relative: getPathBelow(directory, filePath) }))
+			.filter(({ relative }) => relative !== undefined)
+			.map(({ filePath, relative }) => ({ path: relative!, url: getBitbucketFileUrl(location, filePath) }));
+	} else if (isLocalPath(url)) {
+		const root = localPathToUri(url);
+		files = [];
+		const walk = async (uri: vscode.Uri, relative: string): Promise<void> => {
+			for (const [name, type] of await vscode.workspace.fs.readDirectory(uri)) {
+				const childPath = relative ? `${relative}/${name}` : name;
+				// Symlinked directories aren't followed, since they may link back to a parent
+				if ((type & vscode.FileType.Directory) && !(type & vscode.FileType.SymbolicLink)) {
+					await walk(vscode.Uri.joinPath(uri, name), childPath);
+				} else if (type & vscode.FileType.File) {
+					files.push({ path: childPath, url: vscode.Uri.joinPath(uri, name).toString() });
+				}
+			}
+		};
+		try {
+			await walk(root, '');
+		} catch (error) {
+			throw new Error(`Failed to read local directory ${url}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	} else {
+		throw new Error(`Directory sources must be a GitHub or GitLab tree URL, an Azure DevOps items URL, a Bitbucket folder URL or a local directory: ${url}`);
+	}
+
+	return checkBundleFiles(url, files);
+}
+
+/**
+ * Normalizes a path relative to a destination folder (e.g. "./modes//plan.md" to "modes/plan.md"),
+ * or returns undefined if it is absolute or could leave the folder through a `..` segment
+ */
+function normalizeRelativePath(filePath: string): string | undefined {
+	const segments = filePath.split(/[\\/]+/).filter(segment => segment !== '' && segment !== '.');
+	if (/^([\\/]|[a-z]:)/i.test(filePath) || segments.length === 0 || segments.includes('..')) {
+		return undefined;
+	}
+	return segments.join('/');
+}
+
+/**
+ * Normalizes and sorts the files of a directory listing
+ * @throws Error if a file lies outside the directory or there are too many files
+ */
+function checkBundleFiles(url: string, files: BundleFile[]): BundleFile[] {
+	if (files.length > MAX_BUNDLE_FILES) {
+		throw new Error(`Directory ${url} contains ${files.length} files, more than the limit of ${MAX_BUNDLE_FILES}`);
+	}
+	return files
+		.map(file => {
+			const relative = normalizeRelativePath(file.path);
+			if (relative === undefined) {
+				throw new Error(`Directory ${url} lists a file outside of it: ${file.path}`);
+			}
+			return { ...file, path: relative };
+		})
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Gets the files a directory source wrote before from its lock entry. The lock file is committed,
+ * so paths that would leave the destination folder are ignored rather than deleted.
+ */
+function getBundleLockFiles(entry: LockEntry | undefined): Record<string, string> {
+	return Object.fromEntries(Object.entries(entry?.files ?? {}).filter(([filePath]) => normalizeRelativePath(filePath) === filePath));
+}
+
+/**
+ * Hashes a directory listing in sha256sum format, so the hash changes when any file is added, removed or changed
+ */
+function computeManifestSha256(files: Record<string, string>): string {
+	return computeSha256(Object.entries(files)
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([file, sha256]) => `${sha256}  ${file}\n`)
+		.join(''));
+}
+
+/**
+ * Creates the lock entry of a directory source from the hashes of its mirrored files.
+ * The entry hash covers the file list, so adding or removing a file changes it.
+ */
+function createBundleLockEntry(source: InstructionSource, files: Record<string, string>): LockEntry {
+	const sortedFiles = Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)));
+	const manifestSha256 = computeManifestSha256(sortedFiles);
+	return {
+		destination: getDestinationPath(source).folder,
+		sha256: manifestSha256,
+		syncedAt: new Date().toISOString(),
+		sources: [{ language: source.language, url: source.url, ...(source.ref ? { ref: source.ref } : {}), sha256: manifestSha256 }],
+		files: sortedFiles
+	};
+}
+
+/**
+ * Mirrors a directory source into its destination folder.
+ * Files that disappeared upstream are removed, and files with local edits are kept:
+ * both only apply to files this source wrote before, as recorded in the lock file.
+ */
+async function syncBundle(
+	workspaceFolder: vscode.WorkspaceFolder,
+	source: InstructionSource,
+	showNotifications: boolean = true,
+	requireConfirmation: boolean = true,
+	session?: SyncSession
+): Promise<boolean> {
+	let label = getLanguageLabel(source);
+	const folderName = workspaceFolder.name;
+	const { folder } = getDestinationPath(source);
+
+	const readLocal = async (relativePath: string): Promise<string | null> => {
+		try {
+			return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceFolder.uri, folder, relativePath))).toString('utf8');
+		} catch {
+			return null;
+		}
+	};
+
+	try {
+		if (folder && normalizeRelativePath(folder) === undefined) {
+			throw new Error(`The destination folder ${folder} must be a folder inside the workspace`);
+		}
+		const listing = await listBundleFiles(resolveSourceUrl(source), source.headers);
+		const lock = await readLockFile(workspaceFolder);
+		const previous = getBundleLockFiles(lock.entries[getLockKey(folder)]);
+
+		const fetchedFiles: FetchedContent[] = [];
+		const writes: { path: string; content: string }[] = [];
+		const deletions: string[] = [];
+		const kept: string[] = [];
+		const syncedFiles: Record<string, string> = {};
+		const upstreamFiles: Record<string, string> = {};
+
+		for (const file of listing) {
+			const fetched = await fetchContentWithMetadata(file.url, { validateAsInstructions: file.path.endsWith('.md'), headers: source.headers });
+			const { content } = fetched;
+			fetchedFiles.push(fetched);
+			upstreamFiles[file.path] = computeSha256(content);
+			const drift = detectDrift(await readLocal(file.path), content, previous[file.path]);
+
+			if (drift === 'bothChanged' || drift === 'untracked') {
+				// Keep the previous hash (if any), so the file is reported again next time
+				kept.push(file.path);
+				if (previous[file.path]) {
+					syncedFiles[file.path] = previous[file.path];
+				}
+				continue;
+			}
+
+			syncedFiles[file.path] = computeSha256(content);
+			if (drift === 'missing' || drift === 'upstreamChanged') {
+				writes.push({ path: file.path, content });
+			}
+		}
+
+		verifySha256(source, computeManifestSha256(upstreamFiles));
+
+		// Remove files this source wrote before that are gone upstream, unless they were edited
+		const listed = new Set(listing.map(file => file.path));
+		for (const [filePath, sha256] of Object.entries(previous)) {
+			if (listed.has(filePath)) {
+				continue;
+			}
+			const local = await readLocal(filePath);
+			if (local === null) {
+				continue;
+			}
+			if (computeSha256(local) === sha256) {
+				deletions.push(filePath);
+			} else {
+				kept.push(filePath);
+			}
+		}
+
+		label = withStaleNote(label, fetchedFiles);
+
+		if (kept.length > 0) {
+			vscode.window.showWarningMessage(
+				`Instruction Sync: Kept ${kept.length} locally edited file(s) in ${folder} in "${folderName}": ${kept.join(', ')}`
+			);
+		}
+
+		if (writes.length === 0 && deletions.length === 0) {
+			await storeLockEntry(workspaceFolder, createBundleLockEntry(source, syncedFiles));
+			if (showNotifications) {
+				vscode.window.showInformationMessage(
+					`Instruction Sync: ${folder} is already up to date with the ${label} directory in "${folderName}"`
+				);
+			}
+			return false;
+		}
+
+		if (requireConfirmation && !session?.confirmAll) {
+			const config = vscode.workspace.getConfiguration('instructionSync');
+			const confirmBeforeSync = await getEffectiveFlag('confirmBeforeSync');
+
+			if (confirmBeforeSync.value) {
+				const changes = [`write ${writes.length} file(s)`, ...(deletions.length > 0 ? [`remove ${deletions.length} file(s)`] : [])];
+				const result = await vscode.window.showWarningMessage(
+					`Instruction Sync: Mirror the ${label} directory into ${folder} in "${folderName}" (${changes.join(', ')})?`,
+					{ modal: false },
+					'Yes',
+					'Yes to All',
+					'No',
+					...(confirmBeforeSync.source === 'policy' ? [] : ['Always (disable confirmation)'])
+				);
+
+				if (result === 'No' || result === undefined) {
+					return false;
+				}
+
+				if (result === 'Yes to All' && session) {
+					session.confirmAll = true;
+				}
+
+				if (result === 'Always (disable confirmation)') {
+					await config.update('confirmBeforeSync', false, vscode.ConfigurationTarget.Global);
+				}
+			}
+		}
+
+		for (const { path: filePath, content } of writes) {
+			const uri = vscode.Uri.joinPath(workspaceFolder.uri, folder, filePath);
+			await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+			await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+		}
+		for (const filePath of deletions) {
+			await vscode.workspace.fs.delete(vscode.Uri.joinPath(workspaceFolder.uri, folder, filePath));
+		}
+
+		await storeLockEntry(workspaceFolder, createBundleLockEntry(source, syncedFiles));
+		if (showNotifications) {
+			const removed = deletions.length > 0 ? `, removed ${deletions.length}` : '';
+			vscode.window.showInformationMessage(
+				`Instruction Sync: Updated ${writes.length} file(s)${removed} in ${folder} in "${folderName}" from the ${label} directory`
+			);
+		}
+		return true;
+	} catch (error) {
+		if (error instanceof ConnectivityError) {
+			return false;
+		}
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		vscode.window.showErrorMessage(
+			`Instruction Sync: Failed to sync the ${label} directory in "${folderName}": ${errorMessage}`
+		);
+		return false;
+	}
+}
+
+/**
+ * A parsed semantic version
+ */
+interface SemVer {
+	major: number;
+	minor: number;
+	patch: number;
+	prerelease?: string;
+}
+
+/**
+ * Parses a semantic version, optionally prefixed with `v` or `refs/tags/` (e.g. "v1.2.3")
+ */
+function parseSemVer(value: string): SemVer | null {
+	const match = /^(?:refs\/tags\/)?v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/.exec(value.trim());
+	if (!match) {
+		return null;
+	}
+	return { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]), prerelease: match[4] };
+}
+
+/**
+ * Compares two semantic versions; a pre-release sorts before its release
+ */
+function compareSemVer(a: SemVer, b: SemVer): number {
+	return a.major - b.major
+		|| a.minor - b.minor
+		|| a.patch - b.patch
+		|| (a.prerelease === b.prerelease ? 0 : a.prerelease === undefined ? 1 : b.prerelease === undefined ? -1 : comparePrerelease(a.prerelease, b.prerelease));
+}
+
+/**
+ * Compares pre-release tags identifier by identifier (semver §11): numeric identifiers numerically
+ * and below alphanumeric ones, so `beta.9` < `beta.10` < `beta.x`; a longer tag wins a tie
+ */
+function comparePrerelease(a: string, b: string): number {
+	const left = a.split('.');
+	const right = b.split('.');
+	for (let i = 0; i < Math.min(left.length, right.length); i++) {
+		const [x, y] = [left[i], right[i]];
+		const [xNumeric, yNumeric] = [/^\d+$/.test(x), /^\d+$/.test(y)];
+		const compare = xNumeric && yNumeric ? Number(x) - Number(y)
+			: xNumeric ? -1
+				: yNumeric ? 1
+					: x < y ? -1 : x > y ? 1 : 0;
+		if (compare !== 0) {
+			return compare;
+		}
+	}
+	return left.length - right.length;
+}
+
+/**
+ * Checks whether a version satisfies a semver range. Supports `^`, `~`, x-ranges
+ * (`1.x`, `1.2`, `*`), comparators (`>=1.2.0 <2.0.0`), exact versions and `||`.
+ * Pre-releases only satisfy comparators that name a pre-release of the same version.
+ */
+function satisfiesRange(version: SemVer, range: string): boolean {
+	return range.split('||').some(alternative => {
+		// ">= 1.2.0" is the same comparator as ">=1.2.0"
+		const comparators = alternative.replace(/([<>]=?|=|\^|~)\s+/g, '$1').trim().split(/\s+/).filter(comparator => comparator.length > 0);
+		if (version.prerelease && !comparators.some(comparator => {
+			const bound = parseSemVer(comparator.replace(/^[<>=^~]+/, ''));
+			return bound?.prerelease !== undefined
+				&& bound.major === version.major && bound.minor === version.minor && bound.patch === version.patch;
+		})) {
+			return false;
+		}
+		return comparators.every(comparator => satisfiesComparator(version, comparator));
+	});
+}
+
+/**
+ * Checks a version against a single range comparator such as `^1.2.0`, `<2` or `1.x`
+ */
+function satisfiesComparator(version: SemVer, comparator: string): boolean {
+	const match = /^(\^|~|>=|<=|>|<|=)?v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?(?:-([0-9A-Za-z.-]+))?$/.exec(comparator);
+	if (!match) {
+		throw new Error(`Invalid version range: ${comparator}`);
+	}
+
+	const [, operator = '', ...rest] = match;
+	const parts = rest.slice(0, 3).map(part => part === undefined || /^[*xX]$/.test(part) ? undefined : Number(part));
+	const [major, minor, patch] = parts;
+	if (major === undefined) {
+		return true;
+	}
+
+	const lower: SemVer = { major, minor: minor ?? 0, patch: patch ?? 0, prerelease: rest[3] };
+	const compare = compareSemVer(version, lower);
+	switch (operator) {
+		case '>=': return compare >= 0;
+		case '>': return compare > 0;
+		case '<=': return compare <= 0;
+		case '<': return compare < 0;
+	}
+
+	// Exclusive upper bound of ^, ~ and partial versions
+	let upper: SemVer;
+	if (operator === '^') {
+		upper = major > 0 || minor === undefined
+			? { major: major + 1, minor: 0, patch: 0 }
+			: minor > 0 || patch === undefined
+				? { major: 0, minor: minor + 1, patch: 0 }
+				: { major: 0, minor: 0, patch: patch + 1 };
+	} else if (operator === '~' || patch === undefined) {
+		upper = minor === undefined ? { major: major + 1, minor: 0, patch: 0 } : { major, minor: minor + 1, patch: 0 };
+	} else {
+		return compare === 0;
+	}
+	// Pre-releases of the upper bound are excluded as well
+	return compare >= 0 && compareSemVer(version, { ...upper, prerelease: '0' }) < 0;
+}
+
+/**
+ * Finds the highest release tag that satisfies a semver range
+ * @returns The tag name, or undefined if no tag satisfies the range
+ */
+function findLatestVersion(tags: string[], range: string): string | undefined {
+	let latest: { tag: string; version: SemVer } | undefined;
+	for (const tag of tags) {
+		const version = parseSemVer(tag);
+		if (version && !version.prerelease && satisfiesRange(version, range)
+			&& (!latest || compareSemVer(version, latest.version) > 0)) {
+			latest = { tag, version };
+		}
+	}
+	return latest?.tag;
+}
+
+/**
+ * Lists the tags of the repository a GitHub, Azure DevOps, GitLab or Bitbucket source URL points into
+ */
+async function listRepositoryTags(url: string): Promise<string[]> {
+	const parsedUrl = new URL(url);
+
+	if (isGitHubUrl(url).isGitHub) {
+		const segments = parsedUrl.pathname.split('/').filter(segment => segment.length > 0);
+		const reposIndex = segments.indexOf('repos');
+		const [owner, repo] = reposIndex >= 0 ? segments.slice(reposIndex + 1) : segments;
+		if (!owner || !repo) {
+			throw new Error(`Cannot determine the repository of ${url}`);
+		}
+		const { content } = await fetchContentWithMetadata(
+			`${getGitHubApiBase(parsedUrl)}/repos/${owner}/${repo}/git/matching-refs/tags`,
+			{ validateAsInstructions: false, accept: 'application/vnd.github+json' }
+		);
+		const refs = JSON.parse(content) as { ref: string }[];
+		return refs.map(ref => ref.ref.replace(/^refs\/tags\//, ''));
+	}
+
+	const repository = /^(.*\/_apis\/git\/repositories\/[^/]+)/.exec(`${parsedUrl.origin}${parsedUrl.pathname}`);
+	if (isAzureDevOpsUrl(url) && repository) {
+		const { content } = await fetchContentWithMetadata(
+			`${repository[1]}/refs?filter=tags/&api-version=7.0`,
+			{ validateAsInstructions: false, accept: 'application/json' }
+		);
+		const refs = JSON.parse(content) as { value?: { name: string }[] };
+		return (refs.value ?? []).map(ref => ref.name.replace(/^refs\/tags\//, ''));
+	}
+
+	const gitLab = parseGitLabUrl(url);
+	if (gitLab) {
+		const { content } = await fetchContentWithMetadata(
+			`${gitLab.apiBase}/projects/${encodeURIComponent(gitLab.project)}/repository/tags?per_page=100`,
+			{ validateAsInstructions: false, accept: 'application/json' }
+		);
+		const tags = JSON.parse(content) as { name: string }[];
+		return tags.map(tag => tag.name);
+	}
+
+	const bitbucket = parseBitbucketUrl(url);
+	if (bitbucket) {
+		const repoApi = bitbucket.isServer
+			? `${bitbucket.apiBase}/projects/${encodeURIComponent(bitbucket.project)}/repos/${encodeURIComponent(bitbucket.repo)}/tags?limit=1000`
+			: `${bitbucket.apiBase}/repositories/${encodeURIComponent(bitbucket.project)}/${encodeURIComponent(bitbucket.repo)}/refs/tags?pagelen=100&sort=-name`;
+		const { content } = await fetchContentWithMetadata(repoApi, { validateAsInstructions: false, accept: 'application/json' });
+		const tags = JSON.parse(content) as { values?: { name?: string; displayId?: string }[] };
+		return (tags.values ?? []).map(tag => tag.displayId ?? tag.name ?? '').filter(tag => tag.length > 0);
+	}
+
+	throw new Error(`Version checks are only supported for GitHub, Azure DevOps, GitLab and Bitbucket sources: ${url}`);
+}
+
+/**
+ * Updates the pinned ref of a source in the settings scope it is configured in
+ * @returns False if the source isn't configured in local settings (e.g. comes from the remote configuration)
+ */
+async function bumpSourceRef(source: InstructionSource, ref: string): Promise<boolean> {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const inspected = config.inspect<InstructionSource[]>('sources');
+	const scopes: [InstructionSource[] | undefined, vscode.ConfigurationTarget][] = [
+		[inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+		[inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+		[inspected?.globalValue, vscode.ConfigurationTarget.Global]
+	];
+
+	for (const [sources, target] of scopes) {
+		const index = sources?.findIndex(s => s.url === source.url && s.language === source.language && s.ref === source.ref) ?? -1;
+		if (sources && index >= 0) {
+			const updated = sources.map((s, i) => i === index ? { ...s, ref } : s);
+			await config.update('sources', updated, target);
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Checks sources pinned to a version tag for newer tags within their `versionRange`
+ * and offers to bump the pinned ref. Updates the user chose to skip aren't offered again.
+ * @param showNotifications If true, also reports when everything is up to date and failed checks
+ */
+async function checkForUpdates(sources: InstructionSource[], showNotifications: boolean): Promise<void> {
+	let updatesFound = false;
+
+	for (const source of sources) {
+		const pinned = source.ref ? parseSemVer(source.ref) : null;
+		if (!source.ref || !pinned || isLocalPath(source.url)) {
+			continue;
+		}
+
+		const range = source.versionRange ?? `^${pinned.major}.${pinned.minor}.${pinned.patch}`;
+		let latest: string | undefined;
+		try {
+			latest = findLatestVersion(await listRepositoryTags(normalizeSourceUrl(source.url)), range);
+		} catch (error) {
+			console.log(`Instruction Sync: Update check failed for ${source.url}:`, error);
+			if (showNotifications && !(error instanceof ConnectivityError)) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				vscode.window.showErrorMessage(`Instruction Sync: Failed to check ${source.url} for updates: ${errorMessage}`);
+			}
+			continue;
+		}
+
+		const latestVersion = latest ? parseSemVer(latest) : null;
+		if (!latest || !latestVersion || compareSemVer(latestVersion, pinned) <= 0) {
+			continue;
+		}
+
+		const skippedKey = `instructionSync.skippedUpdate:${source.url}`;
+		if (!showNotifications && extensionContext?.globalState.get<string>(skippedKey) === latest) {
+			continue;
+		}
+		updatesFound = true;
+
+		const label = getLanguageLabel(source);
+		const result = await vscode.window.showInformationMessage(
+			`Instruction Sync: ${label} instructions ${latest} are available (pinned to ${source.ref})`,
+			`Update to ${latest}`,
+			'Skip This Version'
+		);
+
+		if (result === `Update to ${latest}`) {
+			if (!await bumpSourceRef(source, latest)) {
+				vscode.window.showWarningMessage(source.origin && isWorkspaceConfigPath(source.origin)
+					? `Instruction Sync: ${label} instructions are pinned in the repository configuration ${source.origin}; update the ref of ${source.url} to ${latest} there`
+					: `Instruction Sync: ${label} instructions are pinned in the remote configuration; ask its maintainers to update ${source.url} to ${latest}`
+				);
+			}
+		} else if (result === 'Skip This Version') {
+			await extensionContext?.globalState.update(skippedKey, latest);
+		}
+	}
+
+	if (showNotifications && !updatesFound) {
+		vscode.window.showInformationMessage('Instruction Sync: All pinned instruction sources are up to date');
+	}
+}
+
+/**
+ * Gets the instruction sources from configuration
+ */
+function getLocalInstructionSources(): InstructionSource[] {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	return config.get<InstructionSource[]>('sources', []);
+}
+
+/**
+ * Parses an Ed25519 public key given as PEM, or as base64 of the raw 32-byte key or its DER encoding
+ * @throws Error if the key is malformed or not an Ed25519 key
+ */
+function parseEd25519PublicKey(value: string): crypto.KeyObject {
+	let key: crypto.KeyObject;
+	try {
+		if (value.includes('-----BEGIN')) {
+			key = crypto.createPublicKey(value);
+		} else {
+			const bytes = Buffer.from(value.replace(/\s+/g, ''), 'base64');
+			const der = bytes.length === 32 ? Buffer.concat([ED25519_SPKI_PREFIX, bytes]) : bytes;
+			key = crypto.createPublicKey({ key: der, format: 'der', type: 'spki' });
+		}
+	} catch (error) {
+		throw new Error(`Invalid remote configuration public key: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (key.asymmetricKeyType !== 'ed25519') {
+		throw new Error(`Invalid remote configuration public key: expected an Ed25519 key, got ${key.asymmetricKeyType}`);
+	}
+	return key;
+}
+
+/**
+ * Verifies a base64 Ed25519 signature over the exact content of a file
+ */
+function verifyDetachedSignature(content: string, signature: string, publicKey: string): boolean {
+	const signatureBytes = Buffer.from(signature.replace(/\s+/g, ''), 'base64');
+	if (signatureBytes.length !== 64) {
+		return false;
+	}
+	return crypto.verify(null, Buffer.from(content, 'utf8'), parseEd25519PublicKey(publicKey), signatureBytes);
+}
+
+/**
+ * Gets the default URL of a file's detached signature: `.sig` appended to the file name,
+ * which is the `path` parameter of Azure DevOps items URLs
+ */
+function getSignatureUrl(url: string): string {
+	if (isLocalPath(url)) {
+		return `${url}.sig`;
+	}
+	const parsedUrl = new URL(url);
+	const itemPath = parsedUrl.searchParams.get('path');
+	if (itemPath) {
+		parsedUrl.searchParams.set('path', `${itemPath}.sig`);
+	} else {
+		parsedUrl.pathname += '.sig';
+	}
+	return parsedUrl.toString();
+}
+
+/**
+ * Verifies the remote configuration against its detached signature if a public key is configured
+ * @throws Error if the signature can't be fetched or doesn't match
+ */
+async function verifyRemoteConfigSignature(remoteConfigUrl: string, content: string): Promise<void> {
+	const config = vscode.workspace.getConfiguration('instructionSync');
+	const publicKey = config.get<string>('remoteConfigPublicKey', '').trim();
+	if (!publicKey) {
+		return;
+	}
+
+	// A custom signature URL only applies to a single configured URL; layers use <url>.sig
+	const urls = getRemoteConfigUrls();
+	const customSignatureUrl = urls.length === 1 && urls[0] === remoteConfigUrl ? config.get<string>('remoteConfigSignatureUrl', '') : '';
+	const signatureUrl = customSignatureUrl || getSignatureUrl(remoteConfigUrl);
+	let signature: string;
+	try {
+		({ content: signature } = await fetchContentWithMetadata(signatureUrl, { validateAsInstructions: false }));
+	} catch (error) {
+		if (error instanceof ConnectivityError) {
+			throw error;
+		}
+		throw new Error(`Refusing unsigned remote configuration: could not fetch its signature from ${signatureUrl}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (!verifyDetachedSignature(content, signature, publicKey)) {
+		throw new Error(`Refusing remote configuration: its signature (${signatureUrl}) doesn't match the configured public key`);
+	}
+}
+
+/**
+ * Gets the output channel the extension logs diagnostics to
+ */
+function getOutputChannel(): vscode.OutputChannel {
+	outputChannel ??= vscode.window.createOutputChannel('Instruction Sync');
+	return outputChannel;
+}
+
+/**
+ * Gets the validation function of one of the SCHEMA_FILES
+ */
+function getSchemaValidator(name: string): ValidateFunction {
+	if (!schemaValidator) {
+		schemaValidator = new Ajv({ allErrors: true, strict: false, validateFormats: false });
+		for (const file of SCHEMA_FILES) {
+			schemaValidator.addSchema(JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'schemas', file), 'utf8')), file);
+		}
+	}
+	const validate = schemaValidator.getSchema(name);
+	if (!validate) {
+		throw new Error(`Unknown schema ${name}`);
+	}
+	return validate;
+}
+
+/**
+ * Removes the value at a JSON pointer: an array element or an object property
+ */
+function removeAtPointer(root: unknown, pointer: string[]): void {
+	const parent = pointer.slice(0, -1).reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], root);
+	const key = pointer[pointer.length - 1];
+	if (Array.isArray(parent)) {
+		parent.splice(Number(key), 1);
+	} else if (typeof parent === 'object' && parent !== null) {
+		delete (parent as Record<string, unknown>)[key];
+	}
+}
+
+/**
+ * Formats a schema validation error for diagnostics
+ */
+function formatSchemaError(error: ErrorObject): string {
+	if (error.keyword === 'additionalProperties') {
+		return `unknown property "${(error.params as { additionalProperty: string }).additionalProperty}"`;
+	}
+	if (error.keyword === 'false schema') {
+		return 'is not allowed here';
+	}
+	if (error.keyword === 'enum') {
+		return `must be one of ${(error.params as { allowedValues: unknown[] }).allowedValues.map(value => JSON.stringify(value)).join(', ')}`;
+	}
+	return error.message ?? error.keyword;
+}
+
+/**
+ * Migrates a parsed remote configuration to the current format version and validates it
+ * against the JSON Schema. Invalid entries (a source, a settings entry, a variable, ...)
+ * are dropped and reported with their JSON path; unknown properties are reported but kept.
+ * @throws Error if the configuration isn't an object or has an unsupported version
+ */
+function validateRemoteConfig(parsed: unknown): { config: RemoteConfig; diagnostics: ConfigDiagnostic[] } {
+	if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+		throw new Error('The remote configuration must be a JSON object');
+	}
+
+	const diagnostics: ConfigDiagnostic[] = [];
+	const version = (parsed as Record<string, unknown>).version ?? 1;
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+		throw new Error(`Invalid remote configuration version ${JSON.stringify(version)}`);
+	}
+	if (version > REMOTE_CONFIG_VERSION) {
+		throw new Error(`Remote configuration version ${version} requires a newer version of Instruction Sync (this version supports up to ${REMOTE_CONFIG_VERSION})`);
+	}
+
+	let config = structuredClone(parsed) as Record<string, unknown>;
+	for (let from = version; from < REMOTE_CONFIG_VERSION; from++) {
+		config = { ...REMOTE_CONFIG_MIGRATIONS[from](config), version: from + 1 };
+	}
+	if (version < REMOTE_CONFIG_VERSION) {
+		diagnostics.push({ path: '/version', message: `migrated from version ${version} to ${REMOTE_CONFIG_VERSION}`, severity: 'info' });
+	}
+
+	diagnostics.push(...applySchema(config, getSchemaValidator('remote-config.schema.json'), REMOTE_CONFIG_COLLECTIONS));
+	return { config: config as RemoteConfig, diagnostics };
+}
+
+/**
+ * Validates a configuration against a JSON Schema. Invalid entries of the given collections
+ * (or invalid properties) are removed from the configuration and reported with their JSON path;
+ * unknown properties are reported but kept.
+ */
+function applySchema(config: Record<string, unknown>, validate: ValidateFunction, collections: ConfigCollections): ConfigDiagnostic[] {
+	if (validate(config)) {
+		return [];
+	}
+
+	const diagnostics: ConfigDiagnostic[] = [];
+	const invalidEntries = new Map<string, string[]>();
+	for (const error of validate.errors ?? []) {
+		// The anyOf error itself explains the failed alternatives
+		if (error.schemaPath.includes('/anyOf/')) {
+			continue;
+		}
+		const segments = error.instancePath.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+		if (error.keyword === 'additionalProperties') {
+			diagnostics.push({ path: error.instancePath || '/', message: `${formatSchemaError(error)} is ignored`, severity: 'warning' });
+			continue;
+		}
+
+		const collection = collections[segments[0]];
+		const entry = segments.slice(0, Math.min(collection?.depth ?? 1, segments.length));
+		const kind = collection && entry.length === collection.depth ? collection.entry : 'property';
+		diagnostics.push({ path: error.instancePath || '/', message: `${formatSchemaError(error)}; the ${kind} is ignored`, severity: 'error' });
+		invalidEntries.set(entry.join('/'), entry);
+	}
+
+	// Remove later array elements first, so earlier indexes stay valid
+	const pointers = Array.from(invalidEntries.values()).sort((a, b) => b.join('/').localeCompare(a.join('/'), undefined, { numeric: true }));
+	for (const pointer of pointers) {
+		if (pointer.length > 0) {
+			removeAtPointer(config, pointer);
 		}
 	}
 
-	return content;
+	return diagnostics;
 }
 
 /**
- * Gets the current content of the local instructions file
+ * Logs the diagnostics of a configuration to the output channel, and notifies about
+ * errors and warnings once per version of the configuration
+ * @param name Kind and location of the configuration, e.g. "Remote configuration https://..."
  */
-async function getLocalInstructions(workspaceFolder: vscode.WorkspaceFolder, source: InstructionSource): Promise<string | null> {
-	const { fullPath } = getDestinationPath(source);
-	const instructionsUri = vscode.Uri.joinPath(workspaceFolder.uri, fullPath);
-	try {
-		const content = await vscode.workspace.fs.readFile(instructionsUri);
-		return Buffer.from(content).toString('utf8');
-	} catch {
-		return null;
+function reportConfigDiagnostics(name: string, content: string, diagnostics: ConfigDiagnostic[]): void {
+	const sha256 = computeSha256(content);
+	if (diagnostics.length === 0 || reportedConfigHashes.has(sha256)) {
+		return;
 	}
-}
-
-/**
- * Writes content to the local instructions file
- */
-async function writeLocalInstructions(workspaceFolder: vscode.WorkspaceFolder, content: string, source: InstructionSource): Promise<void> {
-	const { folder, fullPath } = getDestinationPath(source);
-	const destinationFolderUri = vscode.Uri.joinPath(workspaceFolder.uri, folder);
-	const instructionsUri = vscode.Uri.joinPath(workspaceFolder.uri, fullPath);
+	reportedConfigHashes.add(sha256);
 
-	// Ensure destination directory exists
-	try {
-		await vscode.workspace.fs.createDirectory(destinationFolderUri);
-	} catch {
-		// Directory may already exist
+	const channel = getOutputChannel();
+	channel.appendLine(`[${new Date().toISOString()}] ${name}:`);
+	for (const { path: pointer, message, severity } of diagnostics) {
+		channel.appendLine(`  ${severity.padEnd(7)} ${pointer}: ${message}`);
 	}
 
-	await vscode.workspace.fs.writeFile(instructionsUri, Buffer.from(content, 'utf8'));
+	const problems = diagnostics.filter(diagnostic => diagnostic.severity !== 'info').length;
+	if (problems > 0) {
+		void vscode.window.showWarningMessage(
+			`Instruction Sync: ${name} has ${problems} problem(s); invalid entries were ignored`,
+			'Show Details'
+		).then(choice => {
+			if (choice === 'Show Details') {
+				channel.show(true);
+			}
+		});
+	}
 }
 
 /**
- * Detects the primary language of the workspace based on file extensions and project files
+ * Gets the configured remote configuration URLs, from the baseline to the most specific overlay
  */
-async function detectWorkspaceLanguage(workspaceFolder: vscode.WorkspaceFolder): Promise<string[]> {
-	const detectedLanguages: string[] = [];
-
-	const languagePatterns: { [key: string]: string[] } = {
-		'AL': ['**/*.al', 'app.json'],
-		'C#': ['**/*.cs', '**/*.csproj'],
-		'TypeScript': ['**/*.ts', '**/*.tsx'],
-		'JavaScript': ['**/*.js', '**/*.jsx'],
-		'Python': ['**/*.py'],
-		'Java': ['**/*.java'],
-		'Go': ['**/*.go'],
-		'Rust': ['**/*.rs'],
-		'C++': ['**/*.cpp', '**/*.hpp', '**/*.cc'],
-		'C': ['**/*.c', '**/*.h'],
-		'Ruby': ['**/*.rb'],
-		'PHP': ['**/*.php'],
-		'Swift': ['**/*.swift'],
-		'Kotlin': ['**/*.kt'],
-		'Powershell': ['**/*.ps1']
-	};
+function getRemoteConfigUrls(): string[] {
+	const value = vscode.workspace.getConfiguration('instructionSync').get<string | string[]>('remoteConfigUrl', '');
+	return (Array.isArray(value) ? value : [value])
+		.filter((url): url is string => typeof url === 'string')
+		.map(url => url.trim())
+		.filter(url => url.length > 0);
+}
 
-	for (const [language, patterns] of Object.entries(languagePatterns)) {
-		for (const pattern of patterns) {
-			const relativePattern = new vscode.RelativePattern(workspaceFolder, pattern);
-			const files = await vscode.workspace.findFiles(relativePattern, '**/node_modules/**', 1);
-			if (files.length > 0) {
-				detectedLanguages.push(language);
-				break;
-			}
-		}
+/**
+ * Fetches a remote configuration and, recursively, the configurations it extends, appending them
+ * to `layers` in precedence order: extended configurations come before the one extending them.
+ * A configuration reached more than once is only loaded at its first position.
+ * @param stack URLs of the configurations extending this one, for cycle detection
+ * @throws Error on an `extends` cycle, or if a configuration can't be fetched or is invalid
+ */
+async function loadRemoteConfigLayers(url: string, layers: RemoteConfigLayer[], stack: string[] = []): Promise<void> {
+	if (stack.includes(url)) {
+		throw new Error(`Remote configuration extends itself: ${[...stack, url].join(' → ')}`);
+	}
+	if (layers.some(layer => layer.url === url)) {
+		return;
 	}
 
-	return detectedLanguages;
+	// Fetch remote config with authentication but skip Markdown-specific validation
+	// since this is a JSON config file, not instruction content
+	const { content, staleSince } = await fetchContentWithMetadata(url, { validateAsInstructions: false });
+	await verifyRemoteConfigSignature(url, content);
+	const { config, diagnostics } = validateRemoteConfig(JSON.parse(content));
+	reportConfigDiagnostics(`Remote configuration ${url}`, content, diagnostics);
+
+	const parents = config.extends === undefined ? [] : Array.isArray(config.extends) ? config.extends : [config.extends];
+	for (const parent of parents) {
+		await loadRemoteConfigLayers(resolveIncludeTarget(url, parent.trim()), layers, [...stack, url]);
+	}
+	layers.push({ url, config, staleSince });
 }
 
 /**
- * Synchronizes instructions for a specific language configuration
+ * Merges remote configuration layers, given from the baseline to the most specific overlay:
+ * - a source replaces the source of an earlier layer with the same id (or language) and destination,
+ *   and records the URL of its layer in `origin`
+ * - settings entries with the same scope and language are merged key by key
+ * - flags, variables and language patterns are merged key by key
+ * In every case the later layer wins, except over required sources and enforced flags.
  */
-async function syncInstructions(
-	workspaceFolder: vscode.WorkspaceFolder,
-	source: InstructionSource,
-	showNotifications: boolean = true,
-	requireConfirmation: boolean = true,
-	session?: SyncSession
-): Promise<boolean> {
-	try {
-		const remoteContent = await fetchContent(source.url);
-		const localContent = await getLocalInstructions(workspaceFolder, source);
-
-		if (localContent !== remoteContent) {
-			// Check if confirmation is required
-			if (requireConfirmation && !session?.confirmAll) {
-				const config = vscode.workspace.getConfiguration('instructionSync');
-				const confirmBeforeSync = config.get<boolean>('confirmBeforeSync', true);
-
-				if (confirmBeforeSync) {
-					const action = localContent === null ? 'create' : 'overwrite';
-					const { file } = getDestinationPath(source);
-					const folderName = workspaceFolder.name;
-					const message = `Instruction Sync: ${action === 'create' ? 'Create' : 'Overwrite'} ${file} in "${folderName}" with ${source.language} instructions?`;
-
-					const result = await vscode.window.showWarningMessage(
-						message,
-						{ modal: false },
-						'Yes',
-						'Yes to All',
-						'No',
-						'Always (disable confirmation)'
-					);
-
-					if (result === 'No' || result === undefined) {
-						return false;
-					}
-
-					if (result === 'Yes to All' && session) {
-						session.confirmAll = true;
-					}
-
-					if (result === 'Always (disable confirmation)') {
-						await config.update('confirmBeforeSync', false, vscode.ConfigurationTarget.Global);
-					}
-				}
-			}
-
-			await writeLocalInstructions(workspaceFolder, remoteContent, source);
-			if (showNotifications) {
-				const { file } = getDestinationPath(source);
-				const folderName = workspaceFolder.name;
-				vscode.window.showInformationMessage(
-					`Instruction Sync: Updated ${file} in "${folderName}" from ${source.language} configuration`
-				);
+function mergeRemoteConfigLayers(layers: RemoteConfigLayer[]): RemoteConfig {
+	const sources = new Map<string, InstructionSource>();
+	const settings = new Map<string, SettingsConfig>();
+	const merged: RemoteConfig = { version: REMOTE_CONFIG_VERSION };
+
+	for (const { url, config } of layers) {
+		for (const source of config.sources ?? []) {
+			const key = getSourceKey(source);
+			if (!sources.get(key)?.required) {
+				sources.set(key, { ...source, origin: url });
 			}
-			return true;
-		} else {
-			if (showNotifications) {
-				const folderName = workspaceFolder.name;
-				vscode.window.showInformationMessage(
-					`Instruction Sync: Instructions are already up to date for ${source.language} in "${folderName}"`
-				);
+		}
+		for (const entry of config.settings ?? []) {
+			const key = `${entry.scope}::${entry.language?.toLowerCase() ?? ''}`;
+			settings.set(key, { ...entry, settings: { ...settings.get(key)?.settings, ...entry.settings } });
+		}
+		for (const [name, flag] of Object.entries(config.flags ?? {}) as [FlagName, RemoteFlag][]) {
+			if (!isFlagEnforced(merged.flags?.[name])) {
+				merged.flags = { ...merged.flags, [name]: flag };
 			}
-			return false;
 		}
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		const folderName = workspaceFolder.name;
-		vscode.window.showErrorMessage(
-			`Instruction Sync: Failed to sync instructions for ${source.language} in "${folderName}": ${errorMessage}`
-		);
-		return false;
+		if (config.variables) {
+			merged.variables = { ...merged.variables, ...config.variables };
+		}
+		if (config.languagePatterns) {
+			merged.languagePatterns = { ...merged.languagePatterns, ...config.languagePatterns };
+		}
 	}
-}
 
-/**
- * Gets the instruction sources from configuration
- */
-function getLocalInstructionSources(): InstructionSource[] {
-	const config = vscode.workspace.getConfiguration('instructionSync');
-	return config.get<InstructionSource[]>('sources', []);
+	if (sources.size > 0) {
+		merged.sources = Array.from(sources.values());
+	}
+	if (settings.size > 0) {
+		merged.settings = Array.from(settings.values());
+	}
+	return merged;
 }
 
 /**
- * Fetches and parses the remote configuration file.
- * Uses an in-memory cache to avoid fetching on every sync.
+ * Fetches the remote configuration: the configured URLs and the configurations they extend,
+ * merged into one. Uses an in-memory cache to avoid fetching on every sync.
  */
 async function fetchRemoteConfig(forceRefresh: boolean = false): Promise<RemoteConfig | null> {
 	const config = vscode.workspace.getConfiguration('instructionSync');
-	const remoteConfigUrl = config.get<string>('remoteConfigUrl', '');
+	const remoteConfigUrls = getRemoteConfigUrls();
 
-	if (!remoteConfigUrl) {
+	if (remoteConfigUrls.length === 0) {
+		updatePolicyStatus(null);
 		return null;
 	}
 
@@ -516,68 +4580,50 @@ async function fetchRemoteConfig(forceRefresh: boolean = false): Promise<RemoteC
 	}
 
 	try {
-		// Fetch remote config with authentication but skip Markdown-specific validation
-		// since this is a JSON config file, not instruction content
-		const content = await fetchContent(remoteConfigUrl, { validateAsInstructions: false });
-		const parsed = JSON.parse(content);
-
-		// Validate the structure
-		const remoteConf: RemoteConfig = {};
-
-		if (Array.isArray(parsed.sources)) {
-			remoteConf.sources = parsed.sources.filter((s: unknown) => {
-				if (typeof s !== 'object' || s === null) { return false; }
-				const obj = s as Record<string, unknown>;
-				return typeof obj.language === 'string' && typeof obj.url === 'string';
-			});
+		// A layer that fails fails the whole configuration, since overlays may disable baseline sources
+		const layers: RemoteConfigLayer[] = [];
+		for (const url of remoteConfigUrls) {
+			await loadRemoteConfigLayers(url, layers);
 		}
+		const remoteConf = mergeRemoteConfigLayers(layers);
+		updatePolicyStatus(remoteConf);
 
-		if (typeof parsed.syncOnOpen === 'boolean') {
-			remoteConf.syncOnOpen = parsed.syncOnOpen;
+		// Update cache; an offline copy is only used until the connection is back
+		if (!layers.some(layer => layer.staleSince)) {
+			remoteConfigCache = { config: remoteConf, timestamp: Date.now() };
 		}
-		if (typeof parsed.syncOnConfigChange === 'boolean') {
-			remoteConf.syncOnConfigChange = parsed.syncOnConfigChange;
-		}
-		if (typeof parsed.confirmBeforeSync === 'boolean') {
-			remoteConf.confirmBeforeSync = parsed.confirmBeforeSync;
-		}
-
-		// Parse settings array
-		if (Array.isArray(parsed.settings)) {
-			remoteConf.settings = parsed.settings.filter((s: unknown) => {
-				if (typeof s !== 'object' || s === null) { return false; }
-				const obj = s as Record<string, unknown>;
-				// Must have scope ('user' or 'workspace') and settings object
-				if (obj.scope !== 'user' && obj.scope !== 'workspace') { return false; }
-				if (typeof obj.settings !== 'object' || obj.settings === null) { return false; }
-				// Language is optional
-				if (obj.language !== undefined && typeof obj.language !== 'string') { return false; }
-				return true;
-			}) as SettingsConfig[];
-		}
-
-		// Update cache
-		remoteConfigCache = { config: remoteConf, timestamp: Date.now() };
 
 		return remoteConf;
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
-		console.error(`Failed to fetch remote config from ${remoteConfigUrl}: ${errorMessage}`);
-		vscode.window.showErrorMessage(
-			`Instruction Sync: Failed to fetch remote configuration: ${errorMessage}`
-		);
+		console.error(`Failed to fetch remote config from ${remoteConfigUrls.join(', ')}: ${errorMessage}`);
+		if (!(error instanceof ConnectivityError)) {
+			vscode.window.showErrorMessage(
+				`Instruction Sync: Failed to fetch remote configuration: ${errorMessage}`
+			);
+		}
 		// Return cached config if available, even if expired
 		return remoteConfigCache?.config ?? null;
 	}
 }
 
+/**
+ * Gets the key identifying a source when merging configurations:
+ * its id (or language if it has none) combined with its destination path
+ */
+function getSourceKey(source: InstructionSource): string {
+	const { fullPath } = getDestinationPath(source);
+	return `${(source.id ?? source.language).toLowerCase()}::${fullPath}`;
+}
+
 /**
  * Gets the merged instruction sources from both remote and local configuration.
  * Remote sources are fetched first, then local sources are appended.
- * Local sources can override remote ones for the same language + destination combination.
+ * Local sources can override remote ones for the same language (or id) + destination combination.
+ * Each source's `origin` tells the layer it comes from.
  */
 async function getInstructionSources(forceRefresh: boolean = false): Promise<InstructionSource[]> {
-	const localSources = getLocalInstructionSources();
+	const localSources = getLocalInstructionSources().map(source => ({ ...source, origin: SETTINGS_ORIGIN }));
 	const remoteConfig = await fetchRemoteConfig(forceRefresh);
 
 	if (!remoteConfig?.sources || remoteConfig.sources.length === 0) {
@@ -588,25 +4634,248 @@ async function getInstructionSources(forceRefresh: boolean = false): Promise<Ins
 		return remoteConfig.sources;
 	}
 
-	// Merge: local sources override remote sources for the same language + destination
+	// Merge: local sources override remote sources for the same language (or id) + destination
 	const merged = new Map<string, InstructionSource>();
 
-	const sourceKey = (s: InstructionSource) => {
-		const { fullPath } = getDestinationPath(s);
-		return `${s.language.toLowerCase()}::${fullPath}`;
-	};
-
 	for (const source of remoteConfig.sources) {
-		merged.set(sourceKey(source), source);
+		merged.set(getSourceKey(source), source);
 	}
 
 	for (const source of localSources) {
-		merged.set(sourceKey(source), source);
+		const key = getSourceKey(source);
+		if (isRequiredSource(merged.get(key))) {
+			console.log(`Instruction Sync: Ignoring local source ${source.url}: ${merged.get(key)!.url} is required by the remote configuration`);
+			continue;
+		}
+		merged.set(key, source);
+	}
+
+	return Array.from(merged.values());
+}
+
+/**
+ * Checks whether a source is required by the remote configuration, which only it can do:
+ * `required` is ignored in instructionSync.sources and dropped from repository configurations
+ */
+function isRequiredSource(source: InstructionSource | undefined): boolean {
+	return source?.required === true && source.origin !== undefined && source.origin !== SETTINGS_ORIGIN;
+}
+
+/**
+ * Checks whether a remote flag is enforced over the user's settings
+ */
+function isFlagEnforced(flag: RemoteFlag | undefined): boolean {
+	return typeof flag === 'object' && flag.enforced === true;
+}
+
+/**
+ * Resolves a behavior flag: a value enforced by the remote configuration wins, then the
+ * user's (or workspace's) setting, then the remote default, then the built-in default
+ * @param setting Value explicitly set in the settings, if any
+ */
+function resolveFlag(name: FlagName, remoteFlag: RemoteFlag | undefined, setting: boolean | undefined): EffectiveFlag {
+	const remoteValue = typeof remoteFlag === 'object' ? remoteFlag.value : remoteFlag;
+	if (isFlagEnforced(remoteFlag)) {
+		return { value: remoteValue!, source: 'policy', ...(setting !== undefined && setting !== remoteValue ? { overridden: true } : {}) };
+	}
+	if (setting !== undefined) {
+		return { value: setting, source: 'settings' };
+	}
+	if (remoteValue !== undefined) {
+		return { value: remoteValue, source: 'remote' };
+	}
+	return { value: FLAG_DEFAULTS[name], source: 'default' };
+}
+
+/**
+ * Gets the value of a flag explicitly set in the settings, in the most specific scope
+ */
+function getFlagSetting(name: FlagName): boolean | undefined {
+	const inspected = vscode.workspace.getConfiguration('instructionSync').inspect<boolean>(name);
+	return inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+}
+
+/**
+ * Gets the effective value of a behavior flag, honoring the remote configuration's policy
+ */
+async function getEffectiveFlag(name: FlagName): Promise<EffectiveFlag> {
+	const remoteConfig = await fetchRemoteConfig();
+	return resolveFlag(name, remoteConfig?.flags?.[name], getFlagSetting(name));
+}
+
+/**
+ * Describes what the remote configuration manages centrally: enforced flags and required sources
+ */
+function describePolicy(remoteConfig: RemoteConfig | null): string[] {
+	const lines: string[] = [];
+	for (const name of Object.keys(FLAG_DEFAULTS) as FlagName[]) {
+		const flag = resolveFlag(name, remoteConfig?.flags?.[name], getFlagSetting(name));
+		if (flag.source === 'policy') {
+			lines.push(`instructionSync.${name} is ${flag.value ? 'on' : 'off'}${flag.overridden ? ' (your setting is ignored)' : ''}`);
+		}
+	}
+	for (const source of remoteConfig?.sources ?? []) {
+		if (source.required) {
+			lines.push(`${getLanguageLabel(source)} instructions from ${source.url} are required`);
+		}
+	}
+	return lines;
+}
+
+/**
+ * Shows a status bar item while the remote configuration manages flags or sources centrally
+ */
+function updatePolicyStatus(remoteConfig: RemoteConfig | null): void {
+	const policy = describePolicy(remoteConfig);
+	if (policy.length === 0) {
+		policyStatusItem?.hide();
+		return;
+	}
+	policyStatusItem ??= vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+	policyStatusItem.text = '$(lock) Instruction Sync';
+	policyStatusItem.tooltip = `Centrally managed by the remote configuration:\n${policy.map(line => `- ${line}`).join('\n')}`;
+	policyStatusItem.command = 'kine-instruction-sync.showPolicy';
+	policyStatusItem.show();
+}
+
+/**
+ * Shows what the remote configuration manages centrally
+ */
+async function showPolicy(): Promise<void> {
+	const policy = describePolicy(await fetchRemoteConfig());
+	if (policy.length === 0) {
+		vscode.window.showInformationMessage('Instruction Sync: Nothing is centrally managed by the remote configuration');
+		return;
+	}
+	vscode.window.showInformationMessage('Instruction Sync: Centrally managed by the remote configuration', { modal: true, detail: policy.join('\n') });
+}
+
+/**
+ * Checks whether a path is the repository configuration file of an open workspace folder
+ */
+function isWorkspaceConfigPath(filePath: string): boolean {
+	return (vscode.workspace.workspaceFolders ?? []).some(folder =>
+		WORKSPACE_CONFIG_FILES.some(relativePath => vscode.Uri.joinPath(folder.uri, relativePath).fsPath === filePath)
+	);
+}
+
+/**
+ * Reads the repository configuration of a workspace folder. Invalid entries are dropped and
+ * reported like those of the remote configuration; a file that isn't valid JSON is ignored.
+ * @returns The configuration and its file, or undefined if the folder has no valid configuration
+ */
+async function readWorkspaceConfig(workspaceFolder: vscode.WorkspaceFolder): Promise<{ config: WorkspaceConfig; file: vscode.Uri } | undefined> {
+	for (const relativePath of WORKSPACE_CONFIG_FILES) {
+		const file = vscode.Uri.joinPath(workspaceFolder.uri, relativePath);
+		let content: string;
+		try {
+			content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+		} catch {
+			continue;
+		}
+
+		const name = `Repository configuration ${workspaceFolder.name}/${relativePath}`;
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(content);
+		} catch (error) {
+			reportConfigDiagnostics(name, content, [{ path: '/', message: `invalid JSON (${error instanceof Error ? error.message : String(error)}); the file is ignored`, severity: 'error' }]);
+			return undefined;
+		}
+		if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+			reportConfigDiagnostics(name, content, [{ path: '/', message: 'must be a JSON object; the file is ignored', severity: 'error' }]);
+			return undefined;
+		}
+
+		const config = parsed as Record<string, unknown>;
+		const diagnostics = applySchema(config, getSchemaValidator('workspace-config.schema.json'), WORKSPACE_CONFIG_COLLECTIONS);
+		diagnostics.push(...checkWorkspaceSourcePaths(config as WorkspaceConfig, file.fsPath, workspaceFolder.uri.fsPath));
+		reportConfigDiagnostics(name, content, diagnostics);
+		return { config: config as WorkspaceConfig, file };
+	}
+	return undefined;
+}
+
+/**
+ * Drops repository sources with local paths that are absolute or leave the workspace folder,
+ * so cloning a repository can't copy files such as ~/.ssh/config into the workspace
+ * @param configPath Path of the repository configuration, which relative paths are resolved against
+ * @returns A diagnostic for every dropped source
+ */
+function checkWorkspaceSourcePaths(config: WorkspaceConfig, configPath: string, folderPath: string): ConfigDiagnostic[] {
+	const diagnostics: ConfigDiagnostic[] = [];
+	const pathApi = /^[a-zA-Z]:[\\/]/.test(folderPath) ? path.win32 : path.posix;
+	config.sources = config.sources?.filter((source, index) => {
+		if (/^https?:\/\//i.test(source.url)) {
+			return true;
+		}
+		// Other schemes (file:, C:) and absolute paths are rejected without resolving them
+		if (!/^[a-z][a-z0-9+.-]*:/i.test(source.url) && !isLocalPath(source.url)) {
+			const relative = pathApi.relative(folderPath, resolveIncludeTarget(configPath, source.url));
+			if (relative !== '..' && !relative.startsWith(`..${pathApi.sep}`) && !pathApi.isAbsolute(relative)) {
+				return true;
+			}
+		}
+		diagnostics.push({ path: `/sources/${index}/url`, message: 'must be an http(s) URL or a relative path inside the workspace folder; the source is ignored', severity: 'error' });
+		return false;
+	});
+	return diagnostics;
+}
+
+/**
+ * Checks whether a source is one of the given ids, languages or URLs (case-insensitive)
+ */
+function sourceMatchesAny(source: InstructionSource, names: string[]): boolean {
+	const candidates = [source.id, source.language, source.url].filter((value): value is string => value !== undefined).map(value => value.toLowerCase());
+	return names.some(name => candidates.includes(name.toLowerCase()));
+}
+
+/**
+ * Applies a repository configuration to the central sources: sources with profiles are kept
+ * only if the repository subscribes to one of them (or to their id), excluded sources are
+ * dropped, and the repository's own sources are added, overriding central sources for the
+ * same language (or id) + destination. Required sources can't be excluded or overridden.
+ * @param configPath Path of the repository configuration, which relative local paths are resolved against
+ */
+function applyWorkspaceConfig(sources: InstructionSource[], workspaceConfig: WorkspaceConfig | undefined, configPath?: string): InstructionSource[] {
+	const subscriptions = workspaceConfig?.subscribe ?? [];
+	const exclusions = workspaceConfig?.exclude ?? [];
+
+	const merged = new Map<string, InstructionSource>();
+	for (const source of sources) {
+		const subscribed = !source.profiles?.length
+			|| source.profiles.some(profile => subscriptions.some(name => name.toLowerCase() === profile.toLowerCase()))
+			|| (source.id !== undefined && subscriptions.some(name => name.toLowerCase() === source.id!.toLowerCase()));
+		if (subscribed && (isRequiredSource(source) || !sourceMatchesAny(source, exclusions))) {
+			merged.set(getSourceKey(source), source);
+		}
+	}
+
+	for (const source of workspaceConfig?.sources ?? []) {
+		if (isRequiredSource(merged.get(getSourceKey(source)))) {
+			continue;
+		}
+		let url = configPath ? resolveIncludeTarget(configPath, source.url) : source.url;
+		// Keep the trailing slash marking a local directory source
+		if (/[\\/]$/.test(source.url) && !/[\\/]$/.test(url)) {
+			url += '/';
+		}
+		// Only the remote configuration can require a source
+		merged.set(getSourceKey(source), { ...source, url, required: undefined, origin: configPath ?? source.origin });
 	}
 
 	return Array.from(merged.values());
 }
 
+/**
+ * Gets the sources that apply to a workspace folder: the central sources with the folder's
+ * repository configuration applied
+ */
+async function getWorkspaceFolderSources(workspaceFolder: vscode.WorkspaceFolder, sources: InstructionSource[]): Promise<InstructionSource[]> {
+	const workspaceConfig = await readWorkspaceConfig(workspaceFolder);
+	return applyWorkspaceConfig(sources, workspaceConfig?.config, workspaceConfig?.file.fsPath);
+}
+
 /**
  * Default blacklist patterns for settings that should never be synced remotely.
  * These are security-sensitive or could cause issues if changed remotely.
@@ -621,7 +4890,9 @@ const DEFAULT_SETTINGS_BLACKLIST = [
 	'remote.*',
 	'extensions.autoUpdate',
 	'extensions.autoCheckUpdates',
-	'update.*'
+	'update.*',
+	'instructionSync.remoteConfigPublicKey',
+	'instructionSync.remoteConfigSignatureUrl'
 ];
 
 /**
@@ -912,6 +5183,77 @@ async function performSettingsSync(
 	return changes.length;
 }
 
+/**
+ * Checks whether a source applies to any of the detected languages.
+ * Sources with language '*' apply to every workspace with a detected language.
+ */
+function sourceMatchesLanguages(source: InstructionSource, detectedLanguages: string[]): boolean {
+	if (source.language === '*') {
+		return detectedLanguages.length > 0;
+	}
+	// Case-insensitive language matching
+	return detectedLanguages.some(lang => lang.toLowerCase() === source.language.toLowerCase());
+}
+
+/**
+ * Checks whether a source applies to a workspace: its language must match and,
+ * if it declares a framework, that framework must have been detected as well.
+ */
+function sourceMatchesWorkspace(source: InstructionSource, detectedLanguages: string[], detectedFrameworks: string[]): boolean {
+	if (!sourceMatchesLanguages(source, detectedLanguages)) {
+		return false;
+	}
+	if (!source.framework) {
+		return true;
+	}
+	return detectedFrameworks.some(framework => framework.toLowerCase() === source.framework!.toLowerCase());
+}
+
+/**
+ * Groups sources by destination path, preserving the order in which destinations first appear
+ */
+function groupSourcesByDestination(sources: InstructionSource[]): InstructionSource[][] {
+	const groups = new Map<string, InstructionSource[]>();
+	for (const source of sources) {
+		const { fullPath } = getDestinationPath(source);
+		const group = groups.get(fullPath);
+		if (group) {
+			group.push(source);
+		} else {
+			groups.set(fullPath, [source]);
+		}
+	}
+	return Array.from(groups.values());
+}
+
+/**
+ * Finds destination groups whose target files collide with an earlier group's. Shared files
+ * (e.g. AGENTS.md) and Cursor rules are named after the first source's id or language and framework,
+ * so two groups for the same language would otherwise overwrite each other on every sync.
+ * @returns A description of the collision for every group that has to be skipped
+ */
+function findTargetConflicts(groups: InstructionSource[][]): Map<InstructionSource[], string> {
+	// Target files and managed blocks, mapped to the destination of the group writing them
+	const owners = new Map<string, string>();
+	const conflicts = new Map<InstructionSource[], string>();
+	for (const group of groups) {
+		const primary = sortSourcesForComposition(group)[0];
+		const { fullPath } = getDestinationPath(primary);
+		const keys = getTargets(primary).map(target => {
+			const destination = getTargetSource(primary, target);
+			return getLockKey(getDestinationPath(destination).fullPath, destination.managed ? destination.id : undefined);
+		});
+		const taken = keys.find(key => owners.has(key));
+		if (taken) {
+			const [file, blockId] = taken.split('#');
+			conflicts.set(group, `${blockId ? `block "${blockId}" of ${file}` : file} is already written for ${owners.get(taken)}`);
+			continue;
+		}
+		keys.forEach(key => owners.set(key, fullPath));
+	}
+	return conflicts;
+}
+
 /**
  * Main sync function that checks workspace languages and syncs matching instructions.
  * Uses a global lock to ensure only one sync runs at a time, preventing interleaved
@@ -943,46 +5285,61 @@ async function performSyncInternal(showNotifications: boolean, forceRefresh: boo
 		return;
 	}
 
-	const sources = await getInstructionSources(forceRefresh);
+	const centralSources = await getInstructionSources(forceRefresh);
 
 	// Collect all detected languages across all workspace folders for settings sync
 	const allDetectedLanguages = new Set<string>();
 
 	const session: SyncSession = { confirmAll: false };
 
-	// Sync instructions if sources are configured
-	if (sources.length > 0) {
-		for (const workspaceFolder of workspaceFolders) {
-			const detectedLanguages = await detectWorkspaceLanguage(workspaceFolder);
+	// Sources that apply to any workspace folder, checked for updates afterwards
+	const appliedSources = new Set<InstructionSource>();
 
-			if (detectedLanguages.length === 0) {
-				continue;
-			}
+	// Whether any workspace folder has sources, central or from its repository configuration
+	let hasSources = false;
 
-			// Track all detected languages for settings sync
-			detectedLanguages.forEach(lang => allDetectedLanguages.add(lang));
+	for (const workspaceFolder of workspaceFolders) {
+		const detectedLanguages = await detectWorkspaceLanguage(workspaceFolder);
 
-			// Find and sync all matching source configurations
-			for (const source of sources) {
-				if (source.enabled === false) {
-					continue;
-				}
+		// Track all detected languages for settings sync
+		detectedLanguages.forEach(lang => allDetectedLanguages.add(lang));
 
-				// Case-insensitive language matching
-				const matchingLanguage = detectedLanguages.find(
-					lang => lang.toLowerCase() === source.language.toLowerCase()
-				);
+		// The folder's repository configuration picks profiles, opts out of sources and adds its own
+		const sources = await getWorkspaceFolderSources(workspaceFolder, centralSources);
+		hasSources ||= sources.length > 0;
 
-				if (matchingLanguage) {
-					await syncInstructions(workspaceFolder, source, showNotifications, true, session);
-				}
-			}
+		if (detectedLanguages.length === 0 || sources.length === 0) {
+			continue;
 		}
-	} else {
-		// Even without sources, detect languages for settings sync
-		for (const workspaceFolder of workspaceFolders) {
-			const detectedLanguages = await detectWorkspaceLanguage(workspaceFolder);
-			detectedLanguages.forEach(lang => allDetectedLanguages.add(lang));
+
+		// Frameworks are only detected when a source needs them, since it reads manifests
+		const detectedFrameworks = sources.some(source => source.framework)
+			? await detectWorkspaceFrameworks(workspaceFolder)
+			: [];
+
+		// Find all matching source configurations and sync them per destination,
+		// composing sources that share a destination into one file
+		const matchingSources = sources.filter(
+			source => source.enabled !== false && sourceMatchesWorkspace(source, detectedLanguages, detectedFrameworks)
+		);
+		matchingSources.forEach(source => appliedSources.add(source));
+
+		// Directory sources are mirrored as-is rather than composed
+		for (const source of matchingSources.filter(isBundleSource)) {
+			await syncBundle(workspaceFolder, source, showNotifications, true, session);
+		}
+
+		const groups = groupSourcesByDestination(matchingSources.filter(source => !isBundleSource(source)));
+		const conflicts = findTargetConflicts(groups);
+		for (const group of groups) {
+			const conflict = conflicts.get(group);
+			if (conflict) {
+				vscode.window.showErrorMessage(
+					`Instruction Sync: Skipped instructions for ${group.map(getLanguageLabel).join(' + ')} in "${workspaceFolder.name}": ${conflict}. Give one of the sources a distinct "id".`
+				);
+				continue;
+			}
+			await syncInstructions(workspaceFolder, group, showNotifications, true, session);
 		}
 	}
 
@@ -994,16 +5351,24 @@ async function performSyncInternal(showNotifications: boolean, forceRefresh: boo
 		await performSettingsSync(Array.from(allDetectedLanguages), showNotifications);
 	}
 
+	// Kept across window reloads, so tags are fetched at most once a day
+	const updatesCheckedAt = extensionContext?.globalState.get<number>(UPDATES_CHECKED_AT_KEY, 0) ?? 0;
+	if (config.get<boolean>('checkForUpdates', true) && Date.now() - updatesCheckedAt > UPDATE_CHECK_INTERVAL_MS) {
+		await extensionContext?.globalState.update(UPDATES_CHECKED_AT_KEY, Date.now());
+		await checkForUpdates(Array.from(appliedSources), false);
+	}
+
 	// Show message if no sources configured and no settings synced
-	if (sources.length === 0 && showNotifications) {
+	if (!hasSources && showNotifications) {
 		vscode.window.showInformationMessage(
-			'Instruction Sync: No instruction sources configured. Add sources in settings or set a remote configuration URL.'
+			'Instruction Sync: No instruction sources configured. Add sources in settings or .instruction-sync.json, or set a remote configuration URL.'
 		);
 	}
 }
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Instruction Sync extension is now active');
+	extensionContext = context;
 
 	// Register the manual sync command
 	const syncCommand = vscode.commands.registerCommand('kine-instruction-sync.sync', async () => {
@@ -1018,7 +5383,10 @@ export function activate(context: vscode.ExtensionContext) {
 			return;
 		}
 
-		const sources = await getInstructionSources(true);
+		// Central sources apply to every folder, a repository's own sources only to its folder
+		const centralSources = await getInstructionSources(true);
+		const folderSources = await Promise.all(workspaceFolders.map(folder => getWorkspaceFolderSources(folder, centralSources)));
+		const sources = Array.from(new Set([...centralSources, ...folderSources.flat()]));
 		if (sources.length === 0) {
 			vscode.window.showWarningMessage('Instruction Sync: No instruction sources configured');
 			return;
@@ -1027,14 +5395,30 @@ export function activate(context: vscode.ExtensionContext) {
 		// Let user pick which source to sync
 		const enabledSources = sources.filter(s => s.enabled !== false);
 		const picked = await vscode.window.showQuickPick(
-			enabledSources.map(s => ({ label: s.language, description: s.url, source: s })),
+			enabledSources.map(s => ({
+				label: s.framework ? `${getLanguageLabel(s)} (${s.framework})` : getLanguageLabel(s),
+				description: s.url,
+				detail: [
+					isRequiredSource(s) ? 'Required' : undefined,
+					s.origin && s.origin !== SETTINGS_ORIGIN ? `From ${s.origin}` : undefined,
+					resolveSourceUrl(s) !== s.url ? `Fetched from ${resolveSourceUrl(s)}` : undefined
+				].filter(Boolean).join(' · ') || undefined,
+				source: s
+			})),
 			{ placeHolder: 'Select instruction source to sync' }
 		);
 
 		if (picked) {
 			const session: SyncSession = { confirmAll: false };
-			for (const workspaceFolder of workspaceFolders) {
-				await syncInstructions(workspaceFolder, picked.source, true, true, session);
+			const targetFolders = centralSources.includes(picked.source)
+				? workspaceFolders
+				: workspaceFolders.filter((_, index) => folderSources[index].includes(picked.source));
+			for (const workspaceFolder of targetFolders) {
+				if (isBundleSource(picked.source)) {
+					await syncBundle(workspaceFolder, picked.source, true, true, session);
+				} else {
+					await syncInstructions(workspaceFolder, [picked.source], true, true, session);
+				}
 			}
 		}
 	});
@@ -1051,8 +5435,9 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const url = await vscode.window.showInputBox({
-			prompt: 'Enter the URL to the instructions file',
-			placeHolder: 'https://example.com/copilot-instructions.md'
+			prompt: 'Enter the URL to the instructions file (GitHub, Azure DevOps, GitLab and Bitbucket web addresses are converted)',
+			placeHolder: 'https://example.com/copilot-instructions.md',
+			validateInput: validateResolvedUrl
 		});
 
 		if (!url) {
@@ -1065,13 +5450,20 @@ export function activate(context: vscode.ExtensionContext) {
 		sources.push({ language, url, enabled: true });
 
 		await config.update('sources', sources, vscode.ConfigurationTarget.Global);
-		vscode.window.showInformationMessage(`Instruction Sync: Added source for ${language}`);
+		const resolved = describeResolvedUrl(url);
+		vscode.window.showInformationMessage(`Instruction Sync: Added source for ${language}${resolved ? ` (${resolved})` : ''}`);
 	});
 
 	// Register command to set remote config URL
 	const setRemoteConfigCommand = vscode.commands.registerCommand('kine-instruction-sync.setRemoteConfig', async () => {
 		const config = vscode.workspace.getConfiguration('instructionSync');
-		const currentUrl = config.get<string>('remoteConfigUrl', '');
+		const currentUrls = getRemoteConfigUrls();
+		if (currentUrls.length > 1) {
+			vscode.window.showInformationMessage(`Instruction Sync: ${currentUrls.length} layered remote configuration URLs are configured; edit the list in your settings.`);
+			await vscode.commands.executeCommand('workbench.action.openSettings', 'instructionSync.remoteConfigUrl');
+			return;
+		}
+		const currentUrl = currentUrls[0] ?? '';
 
 		const url = await vscode.window.showInputBox({
 			prompt: 'Enter the URL to the remote configuration JSON file (leave empty to clear)',
@@ -1081,7 +5473,7 @@ export function activate(context: vscode.ExtensionContext) {
 				if (value && !value.startsWith('http://') && !value.startsWith('https://') && !isLocalPath(value)) {
 					return 'Please enter a valid URL (http:// or https://) or a local file path';
 				}
-				return null;
+				return validateResolvedUrl(value);
 			}
 		});
 
@@ -1100,32 +5492,93 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
-	// Perform sync on activation (when workspace opens)
-	const config = vscode.workspace.getConfiguration('instructionSync');
-	const syncOnOpen = config.get<boolean>('syncOnOpen', true);
+	// Register command to check pinned sources for newer versions
+	const checkForUpdatesCommand = vscode.commands.registerCommand('kine-instruction-sync.checkForUpdates', async () => {
+		const sources = await getInstructionSources(true);
+		await checkForUpdates(sources.filter(s => s.enabled !== false), true);
+	});
 
-	if (syncOnOpen) {
-		// Delay slightly to ensure workspace is fully loaded
-		setTimeout(() => performSync(false), 1000);
-	}
+	// Register command to clear cached downloads
+	const clearCacheCommand = vscode.commands.registerCommand('kine-instruction-sync.clearCache', async () => {
+		await clearHttpCache();
+		remoteConfigCache = null;
+		vscode.window.showInformationMessage('Instruction Sync: Download cache cleared');
+	});
+
+	// Register commands to manage credentials for other hosts
+	const setCredentialsCommand = vscode.commands.registerCommand('kine-instruction-sync.setCredentials', setHostCredentials);
+	const clearCredentialsCommand = vscode.commands.registerCommand('kine-instruction-sync.clearCredentials', clearHostCredentials);
+
+	// Serve the incoming content of diff previews, and accept or reject it from the diff editor
+	const pendingContentProvider = vscode.workspace.registerTextDocumentContentProvider(PENDING_SCHEME, {
+		provideTextDocumentContent: uri => pendingChanges.get(uri.toString())?.content ?? ''
+	});
+	const acceptChangeCommand = vscode.commands.registerCommand('kine-instruction-sync.acceptChange', (uri?: vscode.Uri) => resolvePendingChange(uri, true));
+	const rejectChangeCommand = vscode.commands.registerCommand('kine-instruction-sync.rejectChange', (uri?: vscode.Uri) => resolvePendingChange(uri, false));
+
+	// Register command to show what the remote configuration manages centrally
+	const showPolicyCommand = vscode.commands.registerCommand('kine-instruction-sync.showPolicy', showPolicy);
+
+	// Perform sync on activation (when workspace opens), unless the settings or the
+	// remote configuration's policy turn it off.
+	// Delay slightly to ensure workspace is fully loaded
+	setTimeout(async () => {
+		if ((await getEffectiveFlag('syncOnOpen')).value) {
+			performSync(false);
+		}
+	}, 1000);
+
+	// Sync on configuration changes if the settings or the remote configuration's policy say so
+	const onConfigChange = async () => {
+		if ((await getEffectiveFlag('syncOnConfigChange')).value) {
+			performSync(false);
+		}
+	};
 
 	// Watch for configuration changes
 	const configWatcher = vscode.workspace.onDidChangeConfiguration(e => {
 		if (e.affectsConfiguration('instructionSync')) {
-			const newConfig = vscode.workspace.getConfiguration('instructionSync');
-			const syncOnChange = newConfig.get<boolean>('syncOnConfigChange', false);
-			if (syncOnChange) {
-				performSync(false);
+			if (e.affectsConfiguration('instructionSync.remoteConfigUrl')
+				|| e.affectsConfiguration('instructionSync.remoteConfigPublicKey')
+				|| e.affectsConfiguration('instructionSync.remoteConfigSignatureUrl')) {
+				remoteConfigCache = null;
 			}
+			// Whether the user's flag settings are overridden by the policy may have changed
+			if (remoteConfigCache && Object.keys(FLAG_DEFAULTS).some(name => e.affectsConfiguration(`instructionSync.${name}`))) {
+				updatePolicyStatus(remoteConfigCache.config);
+			}
+			onConfigChange();
 		}
 	});
 
-	context.subscriptions.push(syncCommand, forceSyncCommand, addSourceCommand, setRemoteConfigCommand, configWatcher);
+	// Repository configurations changing counts as a configuration change, too
+	const workspaceConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/{${WORKSPACE_CONFIG_FILES.join(',')}}`);
+	workspaceConfigWatcher.onDidCreate(onConfigChange);
+	workspaceConfigWatcher.onDidChange(onConfigChange);
+	workspaceConfigWatcher.onDidDelete(onConfigChange);
+
+	context.subscriptions.push(syncCommand, forceSyncCommand, addSourceCommand, setRemoteConfigCommand, checkForUpdatesCommand, clearCacheCommand, setCredentialsCommand, clearCredentialsCommand, showPolicyCommand, pendingContentProvider, acceptChangeCommand, rejectChangeCommand, configWatcher, workspaceConfigWatcher);
 }
 
 export function deactivate() { }
 
 // Exported for testing
-export { getDestinationPath, isGitHubUrl, isAzureDevOpsUrl, isLocalPath, isValidInstructionContent };
+export { getDestinationPath, isGitHubUrl, isAzureDevOpsUrl, isGitLabUrl, isBitbucketUrl, isLocalPath, isValidInstructionContent };
+export { parseGitLabUrl, parseBitbucketUrl, getGitLabFileUrl, getBitbucketFileUrl, getApiFileUrl, normalizeSourceUrl, resolveSourceUrl };
+export { computeSha256, serializeLockFile, createLockEntry, detectDrift, diffLines, mergeThreeWay };
+export { slugify, findManagedBlock, extractManagedBlock, upsertManagedBlock, getManagedBlockId, renderDestinationFile };
+export { parseFrontmatter, parseApplyTo, serializeFrontmatter, getApplyToGlobs, composeScopedInstructions };
+export { getTargetSource, renderPlainInstructions, renderCursorRule };
+export { isBundleSource, parseGitHubTreeUrl, getPathBelow, createBundleLockEntry, normalizeRelativePath, checkBundleFiles, getBundleLockFiles };
+export { validateRemoteConfig, mergeRemoteConfigLayers, applyWorkspaceConfig, checkWorkspaceSourcePaths, isRequiredSource, resolveFlag, REMOTE_CONFIG_VERSION };
+export { verifySha256, computeManifestSha256, parseEd25519PublicKey, verifyDetachedSignature, getSignatureUrl };
+export { parseRetryAfter, getBackoffDelay, getRateLimitReset, createRateLimitError, fetchWithRetry, isProxyBypassed, isNetworkError, markHostOffline, markHostOnline };
+export { getHttpCacheKey, readCachedResponse, writeCachedResponse, clearHttpCache, getConditionalHeaders, createCachedResponse };
+export { matchesHostPattern, findHostPattern, getCredentialHeaders, validateSourceHeaders };
+export { applyRef, getAzureDevOpsVersion, parseSemVer, compareSemVer, satisfiesRange, findLatestVersion };
+export { getSourceKey, sortSourcesForComposition, composeInstructions, sourceMatchesLanguages, sourceMatchesWorkspace, groupSourcesByDestination, findTargetConflicts };
+export { mergeLanguagePatterns, gitignoreToGlobs, buildExcludeGlob, selectDetectedLanguages, DEFAULT_LANGUAGE_PATTERNS };
+export { detectFrameworksFromPackageJson, detectFrameworksFromCsproj, detectFrameworksFromPythonManifest, detectFrameworksFromAppJson };
+export { flattenTemplateVariables, expandTemplate, resolveIncludeTarget, getIncludeHeaders };
 export { isSettingAllowed, filterBlacklistedSettings, getApplicableSettings, deepEqual, formatValue };
-export type { InstructionSource, RemoteConfig, SyncSession, SettingsConfig, SettingChange };
+export type { CachedResponse, InstructionSource, RemoteConfig, RemoteConfigLayer, RemoteFlag, RemoteFlags, EffectiveFlag, WorkspaceConfig, ConfigDiagnostic, SyncSession, SettingsConfig, SettingChange, LockEntry, LockSourceEntry, LockFile, FetchedContent, SourceContent, ResolvedIncludes, DriftState, MergeResult, ManagedBlockPosition, LanguagePattern, Frontmatter, InstructionTarget, BundleFile, SemVer, HostCredential, GitLabLocation, BitbucketLocation };
@@ -1,9 +1,19 @@
 import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as http from 'http';
 import * as vscode from 'vscode';
 import {
 	getDestinationPath,
 	isGitHubUrl,
 	isAzureDevOpsUrl,
+	isGitLabUrl,
+	isBitbucketUrl,
+	parseGitLabUrl,
+	parseBitbucketUrl,
+	getApiFileUrl,
+	normalizeSourceUrl,
+	resolveSourceUrl,
 	isLocalPath,
 	isValidInstructionContent,
 	isSettingAllowed,
@@ -11,8 +21,91 @@ import {
 	getApplicableSettings,
 	deepEqual,
 	formatValue,
+	computeSha256,
+	serializeLockFile,
+	createLockEntry,
+	detectDrift,
+	diffLines,
+	mergeThreeWay,
+	slugify,
+	extractManagedBlock,
+	upsertManagedBlock,
+	getManagedBlockId,
+	renderDestinationFile,
+	getSourceKey,
+	sortSourcesForComposition,
+	composeInstructions,
+	sourceMatchesLanguages,
+	groupSourcesByDestination,
+	findTargetConflicts,
+	flattenTemplateVariables,
+	expandTemplate,
+	resolveIncludeTarget,
+	getIncludeHeaders,
+	sourceMatchesWorkspace,
+	detectFrameworksFromPackageJson,
+	detectFrameworksFromCsproj,
+	detectFrameworksFromPythonManifest,
+	detectFrameworksFromAppJson,
+	mergeLanguagePatterns,
+	gitignoreToGlobs,
+	buildExcludeGlob,
+	selectDetectedLanguages,
+	DEFAULT_LANGUAGE_PATTERNS,
+	parseFrontmatter,
+	parseApplyTo,
+	serializeFrontmatter,
+	getApplyToGlobs,
+	composeScopedInstructions,
+	getTargetSource,
+	renderPlainInstructions,
+	renderCursorRule,
+	isBundleSource,
+	parseGitHubTreeUrl,
+	getPathBelow,
+	createBundleLockEntry,
+	normalizeRelativePath,
+	checkBundleFiles,
+	getBundleLockFiles,
+	verifySha256,
+	computeManifestSha256,
+	parseEd25519PublicKey,
+	verifyDetachedSignature,
+	getSignatureUrl,
+	validateRemoteConfig,
+	mergeRemoteConfigLayers,
+	applyWorkspaceConfig,
+	checkWorkspaceSourcePaths,
+	isRequiredSource,
+	resolveFlag,
+	REMOTE_CONFIG_VERSION,
+	applyRef,
+	getAzureDevOpsVersion,
+	parseSemVer,
+	compareSemVer,
+	satisfiesRange,
+	findLatestVersion,
+	parseRetryAfter,
+	getBackoffDelay,
+	getRateLimitReset,
+	createRateLimitError,
+	fetchWithRetry,
+	isProxyBypassed,
+	isNetworkError,
+	markHostOffline,
+	markHostOnline,
+	getHttpCacheKey,
+	readCachedResponse,
+	writeCachedResponse,
+	clearHttpCache,
+	getConditionalHeaders,
+	createCachedResponse,
+	matchesHostPattern,
+	findHostPattern,
+	getCredentialHeaders,
+	validateSourceHeaders,
 } from '../extension';
-import type { InstructionSource, SyncSession, SettingsConfig } from '../extension';
+import type { InstructionSource, InstructionTarget, SyncSession, SettingsConfig, LockFile, LockEntry, WorkspaceConfig, CachedResponse } from '../extension';
 
 suite('getDestinationPath', () => {
 	test('returns defaults when no source provided', () => {
@@ -73,6 +166,12 @@ suite('isGitHubUrl', () => {
 		assert.strictEqual(result.isEnterprise, false);
 	});
 
+	test('detects api.github.com as github.com', () => {
+		const result = isGitHubUrl('https://api.github.com/repos/org/repo/contents/file.md');
+		assert.strictEqual(result.isGitHub, true);
+		assert.strictEqual(result.isEnterprise, false);
+	});
+
 	test('detects GitHub Enterprise (.ghe.com)', () => {
 		const result = isGitHubUrl('https://mycompany.ghe.com/org/repo');
 		assert.strictEqual(result.isGitHub, true);
@@ -566,3 +665,2066 @@ suite('formatValue', () => {
 		assert.strictEqual(result, '{"a":1}');
 	});
 });
+
+// ============================================================================
+// Lock File Tests
+// ============================================================================
+
+suite('computeSha256', () => {
+	test('produces the hex SHA-256 digest', () => {
+		assert.strictEqual(
+			computeSha256('hello'),
+			'2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+		);
+	});
+
+	test('differs for different content', () => {
+		assert.notStrictEqual(computeSha256('a'), computeSha256('b'));
+	});
+});
+
+suite('createLockEntry', () => {
+	test('records destination, hash and per-source HTTP validators', () => {
+		const source: InstructionSource = { language: 'C#', url: 'https://example.com/cs.md', destinationFile: 'cs.md' };
+		const fetched = { content: '# C#', etag: '"abc"', lastModified: 'Mon, 01 Jan 2026 00:00:00 GMT' };
+		const entry = createLockEntry([{ source, fetched }], '# C#');
+		assert.strictEqual(entry.destination, '.github/cs.md');
+		assert.strictEqual(entry.sha256, computeSha256('# C#'));
+		assert.ok(!isNaN(Date.parse(entry.syncedAt)));
+		assert.deepStrictEqual(entry.sources, [{
+			language: 'C#',
+			url: 'https://example.com/cs.md',
+			sha256: computeSha256('# C#'),
+			etag: '"abc"',
+			lastModified: 'Mon, 01 Jan 2026 00:00:00 GMT',
+		}]);
+	});
+
+	test('records every source of a composed destination', () => {
+		const parts = [
+			{ source: { language: '*', url: 'https://example.com/general.md' }, fetched: { content: 'general' } },
+			{ source: { language: 'C#', url: 'https://example.com/cs.md' }, fetched: { content: 'cs' } },
+		];
+		const entry = createLockEntry(parts, 'composed');
+		assert.strictEqual(entry.destination, '.github/copilot-instructions.md');
+		assert.strictEqual(entry.sha256, computeSha256('composed'));
+		assert.deepStrictEqual(entry.sources.map(s => s.url), ['https://example.com/general.md', 'https://example.com/cs.md']);
+	});
+
+	test('records the hash of the content with its includes resolved', () => {
+		const source: InstructionSource = { language: '*', url: 'https://example.com/general.md' };
+		const fetched = { content: '<!-- include: ./shared.md -->' };
+		const entry = createLockEntry([{ source, fetched, includes: ['https://example.com/shared.md'], sha256: computeSha256('shared') }], 'shared');
+		assert.strictEqual(entry.sources[0].sha256, computeSha256('shared'));
+		assert.deepStrictEqual(entry.sources[0].includes, ['https://example.com/shared.md']);
+	});
+});
+
+suite('serializeLockFile', () => {
+	test('sorts entries by destination and ends with a newline', () => {
+		const lock: LockFile = {
+			version: 1,
+			entries: {
+				'.github/z.md': { destination: '.github/z.md', sha256: 'z', syncedAt: '2026-01-01T00:00:00.000Z', sources: [] },
+				'.github/a.md': { destination: '.github/a.md', sha256: 'a', syncedAt: '2026-01-01T00:00:00.000Z', sources: [] },
+			},
+		};
+		const serialized = serializeLockFile(lock);
+		assert.ok(serialized.endsWith('\n'));
+		assert.deepStrictEqual(Object.keys(JSON.parse(serialized).entries), ['.github/a.md', '.github/z.md']);
+	});
+
+	test('omits missing HTTP validators', () => {
+		const lock: LockFile = {
+			version: 1,
+			entries: {
+				'.github/a.md': {
+					destination: '.github/a.md',
+					sha256: 'a',
+					syncedAt: '2026-01-01T00:00:00.000Z',
+					sources: [{ language: 'A', url: '/shared/a.md', sha256: 'a' }],
+				},
+			},
+		};
+		const source = JSON.parse(serializeLockFile(lock)).entries['.github/a.md'].sources[0];
+		assert.strictEqual('etag' in source, false);
+		assert.strictEqual('lastModified' in source, false);
+	});
+});
+
+// ============================================================================
+// Drift Detection Tests
+// ============================================================================
+
+suite('detectDrift', () => {
+	test('reports unchanged when local matches remote', () => {
+		assert.strictEqual(detectDrift('same', 'same', computeSha256('old')), 'unchanged');
+	});
+
+	test('reports missing when there is no local file', () => {
+		assert.strictEqual(detectDrift(null, 'remote', undefined), 'missing');
+	});
+
+	test('reports untracked when nothing was synced before', () => {
+		assert.strictEqual(detectDrift('local', 'remote', undefined), 'untracked');
+	});
+
+	test('reports upstreamChanged when local still matches the last sync', () => {
+		assert.strictEqual(detectDrift('old', 'new', computeSha256('old')), 'upstreamChanged');
+	});
+
+	test('reports localChanged when remote still matches the last sync', () => {
+		assert.strictEqual(detectDrift('edited', 'old', computeSha256('old')), 'localChanged');
+	});
+
+	test('reports bothChanged when neither side matches the last sync', () => {
+		assert.strictEqual(detectDrift('edited', 'new', computeSha256('old')), 'bothChanged');
+	});
+});
+
+suite('diffLines', () => {
+	test('returns no hunks for identical input', () => {
+		assert.deepStrictEqual(diffLines(['a', 'b'], ['a', 'b']), []);
+	});
+
+	test('coalesces adjacent changes into one hunk', () => {
+		assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a', 'x', 'y', 'c']), [
+			{ baseStart: 1, baseEnd: 2, start: 1, end: 3 },
+		]);
+	});
+
+	test('reports pure insertions and deletions', () => {
+		assert.deepStrictEqual(diffLines(['a'], ['a', 'b']), [{ baseStart: 1, baseEnd: 1, start: 1, end: 2 }]);
+		assert.deepStrictEqual(diffLines(['a', 'b'], ['b']), [{ baseStart: 0, baseEnd: 1, start: 0, end: 0 }]);
+	});
+
+	test('diffs only the lines between the common prefix and suffix', () => {
+		const lines = Array.from({ length: 50000 }, (_, index) => `line ${index}`);
+		const modified = [...lines.slice(0, 25000), 'inserted', ...lines.slice(25000)];
+		assert.deepStrictEqual(diffLines(lines, modified), [{ baseStart: 25000, baseEnd: 25000, start: 25000, end: 25001 }]);
+	});
+
+	test('reports one changed region when the files are too different to compare', () => {
+		const base = Array.from({ length: 20000 }, (_, index) => `base ${index}`);
+		const modified = Array.from({ length: 20000 }, (_, index) => `modified ${index}`);
+		assert.deepStrictEqual(diffLines(['same', ...base, 'end'], ['same', ...modified, 'end']), [
+			{ baseStart: 1, baseEnd: 20001, start: 1, end: 20001 },
+		]);
+	});
+});
+
+suite('mergeThreeWay', () => {
+	const base = 'a\nb\nc\nd\ne';
+
+	test('combines non-overlapping changes from both sides', () => {
+		const result = mergeThreeWay(base, 'a\nB\nc\nd\ne', 'a\nb\nc\nD\ne');
+		assert.strictEqual(result.content, 'a\nB\nc\nD\ne');
+		assert.strictEqual(result.conflicts, 0);
+	});
+
+	test('keeps identical changes made on both sides once', () => {
+		const result = mergeThreeWay(base, 'a\nB\nc\nd\ne', 'a\nB\nc\nd\ne');
+		assert.strictEqual(result.content, 'a\nB\nc\nd\ne');
+		assert.strictEqual(result.conflicts, 0);
+	});
+
+	test('marks overlapping changes as conflicts', () => {
+		const result = mergeThreeWay(base, 'a\nB\nc\nd\ne', 'a\nX\nc\nd\ne', 'Remote (C#)');
+		assert.strictEqual(result.content, 'a\n<<<<<<< Local\nB\n=======\nX\n>>>>>>> Remote (C#)\nc\nd\ne');
+		assert.strictEqual(result.conflicts, 1);
+	});
+
+	test('preserves local additions alongside upstream additions', () => {
+		const result = mergeThreeWay(base, 'a\nb\nc\nd\ne\nlocal', 'top\na\nb\nc\nd\ne');
+		assert.strictEqual(result.content, 'top\na\nb\nc\nd\ne\nlocal');
+		assert.strictEqual(result.conflicts, 0);
+	});
+});
+
+// ============================================================================
+// Managed Block Tests
+// ============================================================================
+
+suite('slugify', () => {
+	test('converts language names into identifiers', () => {
+		assert.strictEqual(slugify('C#'), 'csharp');
+		assert.strictEqual(slugify('C++'), 'cpp');
+		assert.strictEqual(slugify('TypeScript'), 'typescript');
+		assert.strictEqual(slugify('Org Wide'), 'org-wide');
+	});
+});
+
+suite('upsertManagedBlock', () => {
+	test('appends a missing block at the bottom by default', () => {
+		const result = upsertManagedBlock('# Project\n\nlocal notes\n', 'csharp', 'central');
+		assert.strictEqual(
+			result,
+			'# Project\n\nlocal notes\n\n<!-- instruction-sync:begin id=csharp -->\ncentral\n<!-- instruction-sync:end id=csharp -->\n'
+		);
+	});
+
+	test('inserts a missing block at the top when requested', () => {
+		const result = upsertManagedBlock('local notes\n', 'csharp', 'central', 'top');
+		assert.ok(result.startsWith('<!-- instruction-sync:begin id=csharp -->\ncentral\n'));
+		assert.ok(result.endsWith('\n\nlocal notes\n'));
+	});
+
+	test('creates a file containing only the block when empty', () => {
+		assert.strictEqual(
+			upsertManagedBlock('', 'al', 'rules'),
+			'<!-- instruction-sync:begin id=al -->\nrules\n<!-- instruction-sync:end id=al -->\n'
+		);
+	});
+
+	test('replaces only the existing block and preserves surrounding content', () => {
+		const original = 'before\n<!-- instruction-sync:begin id=al -->\nold\n<!-- instruction-sync:end id=al -->\nafter\n';
+		assert.strictEqual(
+			upsertManagedBlock(original, 'al', 'new'),
+			'before\n<!-- instruction-sync:begin id=al -->\nnew\n<!-- instruction-sync:end id=al -->\nafter\n'
+		);
+	});
+
+	test('leaves blocks with other ids untouched', () => {
+		const original = '<!-- instruction-sync:begin id=csharp -->\ncs\n<!-- instruction-sync:end id=csharp -->\n';
+		const result = upsertManagedBlock(original, 'typescript', 'ts');
+		assert.strictEqual(extractManagedBlock(result, 'csharp'), 'cs');
+		assert.strictEqual(extractManagedBlock(result, 'typescript'), 'ts');
+	});
+});
+
+suite('extractManagedBlock', () => {
+	test('returns null when the block is missing', () => {
+		assert.strictEqual(extractManagedBlock('no markers here', 'csharp'), null);
+	});
+
+	test('round-trips content written by upsertManagedBlock', () => {
+		for (const body of ['', 'one line', 'trailing newline\n', 'a\n\nb']) {
+			assert.strictEqual(extractManagedBlock(upsertManagedBlock('notes', 'id', body), 'id'), body);
+		}
+	});
+
+	test('does not match ids that only share a prefix', () => {
+		const content = '<!-- instruction-sync:begin id=csharp -->\ncs\n<!-- instruction-sync:end id=csharp -->';
+		assert.strictEqual(extractManagedBlock(content, 'c'), null);
+	});
+});
+
+suite('getManagedBlockId', () => {
+	test('returns undefined for unmanaged sources without markers', () => {
+		assert.strictEqual(getManagedBlockId({ language: 'C#', url: 'https://example.com/cs.md' }, '# plain file'), undefined);
+	});
+
+	test('returns the slug for managed sources', () => {
+		assert.strictEqual(getManagedBlockId({ language: 'C#', url: 'https://example.com/cs.md', managed: true }, null), 'csharp');
+	});
+
+	test('prefers an explicit id', () => {
+		assert.strictEqual(getManagedBlockId({ language: 'C#', url: 'https://example.com/cs.md', id: 'dotnet', managed: true }, null), 'dotnet');
+	});
+
+	test('detects existing markers even when managed is not set', () => {
+		const content = upsertManagedBlock('', 'csharp', 'cs');
+		assert.strictEqual(getManagedBlockId({ language: 'C#', url: 'https://example.com/cs.md' }, content), 'csharp');
+	});
+});
+
+// ============================================================================
+// Composition Tests
+// ============================================================================
+
+suite('getSourceKey', () => {
+	test('combines lowercased language and destination', () => {
+		assert.strictEqual(getSourceKey({ language: 'C#', url: 'https://example.com/cs.md' }), 'c#::.github/copilot-instructions.md');
+	});
+
+	test('prefers id over language so same-language sources can share a destination', () => {
+		const a = getSourceKey({ language: 'C#', url: 'https://example.com/a.md', id: 'cs-general' });
+		const b = getSourceKey({ language: 'C#', url: 'https://example.com/b.md', id: 'cs-testing' });
+		assert.notStrictEqual(a, b);
+	});
+});
+
+suite('sourceMatchesLanguages', () => {
+	test('matches languages case-insensitively', () => {
+		assert.strictEqual(sourceMatchesLanguages({ language: 'typescript', url: 'x' }, ['TypeScript']), true);
+		assert.strictEqual(sourceMatchesLanguages({ language: 'Python', url: 'x' }, ['TypeScript']), false);
+	});
+
+	test('general sources match any workspace with a detected language', () => {
+		assert.strictEqual(sourceMatchesLanguages({ language: '*', url: 'x' }, ['C#']), true);
+		assert.strictEqual(sourceMatchesLanguages({ language: '*', url: 'x' }, []), false);
+	});
+});
+
+suite('groupSourcesByDestination', () => {
+	test('groups sources sharing a destination', () => {
+		const groups = groupSourcesByDestination([
+			{ language: 'C#', url: 'https://example.com/cs.md' },
+			{ language: 'C#', url: 'https://example.com/cs-testing.md', destinationFile: 'testing.md' },
+			{ language: 'TypeScript', url: 'https://example.com/ts.md' },
+		]);
+		assert.strictEqual(groups.length, 2);
+		assert.deepStrictEqual(groups[0].map(s => s.language), ['C#', 'TypeScript']);
+		assert.strictEqual(groups[1][0].destinationFile, 'testing.md');
+	});
+});
+
+suite('findTargetConflicts', () => {
+	const targets: InstructionTarget[] = ['copilot', 'agents', 'cursor'];
+
+	test('reports groups sharing a language in the same target files', () => {
+		const groups = groupSourcesByDestination([
+			{ language: 'TypeScript', url: 'https://example.com/ts.md', targets },
+			{ language: 'TypeScript', url: 'https://example.com/ts-testing.md', destinationFile: 'testing.md', targets },
+		]);
+		const conflicts = findTargetConflicts(groups);
+		assert.strictEqual(conflicts.size, 1);
+		assert.strictEqual(conflicts.get(groups[1]), 'block "typescript" of AGENTS.md is already written for .github/copilot-instructions.md');
+	});
+
+	test('reports shared Cursor rules', () => {
+		const groups = groupSourcesByDestination([
+			{ language: 'TypeScript', url: 'https://example.com/ts.md', targets: ['cursor'] },
+			{ language: 'TypeScript', url: 'https://example.com/ts-testing.md', destinationFile: 'testing.md', targets: ['cursor'] },
+		]);
+		assert.strictEqual(findTargetConflicts(groups).get(groups[1]), '.cursor/rules/typescript.mdc is already written for .github/copilot-instructions.md');
+	});
+
+	test('accepts groups with distinct ids', () => {
+		const groups = groupSourcesByDestination([
+			{ language: 'TypeScript', url: 'https://example.com/ts.md', targets },
+			{ language: 'TypeScript', url: 'https://example.com/ts-testing.md', destinationFile: 'testing.md', id: 'testing', targets },
+		]);
+		assert.strictEqual(findTargetConflicts(groups).size, 0);
+	});
+});
+
+suite('sortSourcesForComposition', () => {
+	test('sorts by order, then language, then url', () => {
+		const sorted = sortSourcesForComposition([
+			{ language: 'TypeScript', url: 'https://example.com/ts.md' },
+			{ language: 'C#', url: 'https://example.com/cs.md' },
+			{ language: '*', url: 'https://example.com/general.md', order: -1 },
+		]);
+		assert.deepStrictEqual(sorted.map(s => s.language), ['*', 'C#', 'TypeScript']);
+	});
+
+	test('is independent of the configured order', () => {
+		const sources: InstructionSource[] = [
+			{ language: 'C#', url: 'https://example.com/b.md' },
+			{ language: 'C#', url: 'https://example.com/a.md' },
+		];
+		assert.deepStrictEqual(
+			sortSourcesForComposition(sources).map(s => s.url),
+			sortSourcesForComposition([...sources].reverse()).map(s => s.url)
+		);
+	});
+});
+
+suite('composeInstructions', () => {
+	test('returns the content of a single source unchanged', () => {
+		assert.strictEqual(composeInstructions([{ source: { language: 'C#', url: 'x' }, content: '# C#\n' }]), '# C#\n');
+	});
+
+	test('concatenates sections with generated headings', () => {
+		const result = composeInstructions([
+			{ source: { language: '*', url: 'g' }, content: 'Be nice.\n' },
+			{ source: { language: 'C#', url: 'c' }, content: 'Use records.' },
+		]);
+		assert.strictEqual(result, '## General\n\nBe nice.\n\n## C#\n\nUse records.\n');
+	});
+
+	test('uses custom headings and allows omitting them', () => {
+		const result = composeInstructions([
+			{ source: { language: 'C#', url: 'c', heading: '.NET Guidelines' }, content: 'a' },
+			{ source: { language: 'TypeScript', url: 't', heading: '' }, content: 'b' },
+		]);
+		assert.strictEqual(result, '## .NET Guidelines\n\na\n\nb\n');
+	});
+});
+
+// ============================================================================
+// Template Tests
+// ============================================================================
+
+suite('flattenTemplateVariables', () => {
+	test('flattens nested objects into dotted names', () => {
+		const variables: Record<string, string> = {};
+		flattenTemplateVariables('package', { name: 'app', version: '1.0.0', repository: { url: 'https://example.com' } }, variables);
+		assert.deepStrictEqual(variables, {
+			'package.name': 'app',
+			'package.version': '1.0.0',
+			'package.repository.url': 'https://example.com',
+		});
+	});
+
+	test('joins arrays of primitives and skips arrays of objects', () => {
+		const variables: Record<string, string> = {};
+		flattenTemplateVariables('app', { platforms: ['web', 'bc'], dependencies: [{ id: 'x' }] }, variables);
+		assert.deepStrictEqual(variables, { 'app.platforms': 'web, bc' });
+	});
+
+	test('ignores undefined input', () => {
+		const variables: Record<string, string> = {};
+		flattenTemplateVariables('package', undefined, variables);
+		assert.deepStrictEqual(variables, {});
+	});
+});
+
+suite('expandTemplate', () => {
+	const variables = { 'workspace.name': 'billing', 'languages': 'C#, TypeScript', 'vars.team': 'Payments' };
+
+	test('expands known placeholders', () => {
+		assert.strictEqual(
+			expandTemplate('Repo {{workspace.name}} ({{ languages }}) owned by {{vars.team}}', variables),
+			'Repo billing (C#, TypeScript) owned by Payments'
+		);
+	});
+
+	test('leaves content without placeholders untouched', () => {
+		assert.strictEqual(expandTemplate('# Plain\n', variables), '# Plain\n');
+	});
+
+	test('throws listing every unresolved placeholder', () => {
+		assert.throws(
+			() => expandTemplate('{{git.remote}} {{package.name}} {{git.remote}}', variables),
+			/Unresolved template placeholder\(s\): \{\{git\.remote\}\}, \{\{package\.name\}\}$/
+		);
+	});
+
+	test('ignores braces that are not placeholders', () => {
+		assert.strictEqual(expandTemplate('{{#each items}} {{ }}', variables), '{{#each items}} {{ }}');
+	});
+
+	test('leaves placeholders of other template languages untouched', () => {
+		const content = '<p>{{ message }}</p> {{ user.name }} {{ item | upper }} {{workspace}}';
+		assert.strictEqual(expandTemplate(content, variables), content);
+	});
+
+	test('leaves GitHub Actions expressions untouched', () => {
+		const content = 'ref: ${{ github.ref }}\nenv: ${{ vars.DEPLOY_ENV }}';
+		assert.strictEqual(expandTemplate(content, variables), content);
+	});
+});
+
+// ============================================================================
+// Include Directive Tests
+// ============================================================================
+
+suite('resolveIncludeTarget', () => {
+	test('resolves relative to raw GitHub URLs', () => {
+		assert.strictEqual(
+			resolveIncludeTarget('https://raw.githubusercontent.com/org/repo/main/lang/csharp.md', '../shared/security.md'),
+			'https://raw.githubusercontent.com/org/repo/main/shared/security.md'
+		);
+	});
+
+	test('keeps the query of GitHub API URLs', () => {
+		assert.strictEqual(
+			resolveIncludeTarget('https://api.github.com/repos/org/repo/contents/lang/csharp.md?ref=v1', './testing.md'),
+			'https://api.github.com/repos/org/repo/contents/lang/testing.md?ref=v1'
+		);
+	});
+
+	test('resolves within the path parameter of Azure DevOps item URLs', () => {
+		const resolved = new URL(resolveIncludeTarget(
+			'https://dev.azure.com/org/project/_apis/git/repositories/repo/items?path=/lang/csharp.md&api-version=7.0',
+			'../shared/security.md'
+		));
+		assert.strictEqual(resolved.searchParams.get('path'), '/shared/security.md');
+		assert.strictEqual(resolved.searchParams.get('api-version'), '7.0');
+	});
+
+	test('resolves relative to local paths', () => {
+		assert.strictEqual(resolveIncludeTarget('/shared/lang/csharp.md', './security.md'), '/shared/lang/security.md');
+		assert.strictEqual(resolveIncludeTarget('C:\\shared\\lang\\csharp.md', '..\\security.md'), 'C:\\shared\\security.md');
+		assert.strictEqual(resolveIncludeTarget('file:///shared/lang/csharp.md', './security.md'), 'file:///shared/lang/security.md');
+	});
+
+	test('uses absolute targets as-is', () => {
+		assert.strictEqual(resolveIncludeTarget('/shared/csharp.md', 'https://example.com/security.md'), 'https://example.com/security.md');
+		assert.strictEqual(resolveIncludeTarget('/shared/csharp.md', '/other/security.md'), '/other/security.md');
+		assert.strictEqual(resolveIncludeTarget('https://example.com/csharp.md', 'https://cdn.example.com/security.md'), 'https://cdn.example.com/security.md');
+	});
+
+	test('rejects local targets of remote files', () => {
+		for (const target of ['/home/dev/.ssh/id_rsa', 'file:///etc/passwd', 'C:\\Users\\dev\\secrets.md', 'ftp://example.com/x.md']) {
+			assert.throws(() => resolveIncludeTarget('https://example.com/lang/csharp.md', target), /can only include relative or http\(s\) targets/);
+		}
+	});
+});
+
+suite('getIncludeHeaders', () => {
+	const headers = { 'PRIVATE-TOKEN': 'secret' };
+
+	test('sends source headers to includes on the same origin', () => {
+		assert.strictEqual(getIncludeHeaders('https://git.example.com/api/v4/projects/1/files/a.md/raw', 'https://git.example.com/api/v4/projects/1/files/b.md/raw', headers), headers);
+	});
+
+	test('does not send source headers to cross-origin includes', () => {
+		assert.strictEqual(getIncludeHeaders('https://git.example.com/a.md', 'https://attacker.example/x.md', headers), undefined);
+		assert.strictEqual(getIncludeHeaders('https://git.example.com/a.md', 'http://git.example.com/b.md', headers), undefined);
+		assert.strictEqual(getIncludeHeaders('https://git.example.com/a.md', 'https://git.example.com:8443/b.md', headers), undefined);
+	});
+
+	test('does not send headers to local files', () => {
+		assert.strictEqual(getIncludeHeaders('/shared/a.md', '/shared/b.md', headers), undefined);
+	});
+});
+
+// ============================================================================
+// Framework Detection Tests
+// ============================================================================
+
+suite('detectFrameworksFromPackageJson', () => {
+	test('detects frameworks from dependencies and devDependencies', () => {
+		const frameworks = detectFrameworksFromPackageJson({
+			dependencies: { 'react': '^18.0.0', '@nestjs/core': '^10.0.0' },
+			devDependencies: { 'vitest': '^1.0.0' },
+		});
+		assert.deepStrictEqual(frameworks.sort(), ['nestjs', 'react', 'vitest']);
+	});
+
+	test('detects VS Code extensions from engines', () => {
+		assert.deepStrictEqual(detectFrameworksFromPackageJson({ engines: { vscode: '^1.90.0' } }), ['vscode-extension']);
+	});
+
+	test('returns nothing for invalid manifests', () => {
+		assert.deepStrictEqual(detectFrameworksFromPackageJson(undefined), []);
+	});
+});
+
+suite('detectFrameworksFromCsproj', () => {
+	test('detects frameworks from the SDK and package references', () => {
+		const csproj = `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <ItemGroup>
+    <PackageReference Include="Microsoft.EntityFrameworkCore.SqlServer" Version="8.0.0" />
+    <PackageReference Include="xunit" Version="2.6.0" />
+  </ItemGroup>
+</Project>`;
+		assert.deepStrictEqual(detectFrameworksFromCsproj(csproj).sort(), ['aspnetcore', 'efcore', 'xunit']);
+	});
+
+	test('returns nothing for plain class libraries', () => {
+		assert.deepStrictEqual(detectFrameworksFromCsproj('<Project Sdk="Microsoft.NET.Sdk"></Project>'), []);
+	});
+});
+
+suite('detectFrameworksFromPythonManifest', () => {
+	test('detects frameworks from requirements.txt', () => {
+		const requirements = 'Django>=4.2\nflask[async]==3.0\n# fastapi is not used\nrequests';
+		assert.deepStrictEqual(detectFrameworksFromPythonManifest(requirements).sort(), ['django', 'flask']);
+	});
+
+	test('detects frameworks from pyproject.toml', () => {
+		const pyproject = '[project]\ndependencies = ["fastapi>=0.110", "pytest"]\n\n[tool.poetry.dependencies]\ndjango = "^5.0"';
+		assert.deepStrictEqual(detectFrameworksFromPythonManifest(pyproject).sort(), ['django', 'fastapi', 'pytest']);
+	});
+});
+
+suite('detectFrameworksFromAppJson', () => {
+	test('detects Business Central AL apps', () => {
+		assert.deepStrictEqual(detectFrameworksFromAppJson({ publisher: 'Kine', platform: '24.0.0.0' }), ['business-central']);
+	});
+
+	test('ignores other app.json files', () => {
+		assert.deepStrictEqual(detectFrameworksFromAppJson({ expo: { name: 'app' } }), []);
+	});
+});
+
+suite('sourceMatchesWorkspace', () => {
+	test('sources without a framework match on language alone', () => {
+		assert.strictEqual(sourceMatchesWorkspace({ language: 'TypeScript', url: 'x' }, ['TypeScript'], []), true);
+	});
+
+	test('sources with a framework require it to be detected', () => {
+		const source: InstructionSource = { language: 'TypeScript', url: 'x', framework: 'React' };
+		assert.strictEqual(sourceMatchesWorkspace(source, ['TypeScript'], ['react']), true);
+		assert.strictEqual(sourceMatchesWorkspace(source, ['TypeScript'], ['nestjs']), false);
+	});
+
+	test('framework alone is not enough without a language match', () => {
+		const source: InstructionSource = { language: 'Python', url: 'x', framework: 'django' };
+		assert.strictEqual(sourceMatchesWorkspace(source, ['TypeScript'], ['django']), false);
+	});
+});
+
+// ============================================================================
+// Language Detection Tests
+// ============================================================================
+
+suite('mergeLanguagePatterns', () => {
+	test('later layers replace the patterns of a language', () => {
+		const merged = mergeLanguagePatterns(DEFAULT_LANGUAGE_PATTERNS, { 'Python': ['src/**/*.py'] });
+		assert.deepStrictEqual(merged['Python'], ['src/**/*.py']);
+		assert.deepStrictEqual(merged['Go'], DEFAULT_LANGUAGE_PATTERNS['Go']);
+	});
+
+	test('empty arrays disable a language', () => {
+		const merged = mergeLanguagePatterns(DEFAULT_LANGUAGE_PATTERNS, { 'JavaScript': [] });
+		assert.strictEqual('JavaScript' in merged, false);
+	});
+
+	test('adds new languages', () => {
+		const merged = mergeLanguagePatterns(DEFAULT_LANGUAGE_PATTERNS, undefined, { 'Dart': ['**/*.dart'] });
+		assert.deepStrictEqual(merged['Dart'], ['**/*.dart']);
+	});
+});
+
+suite('gitignoreToGlobs', () => {
+	test('converts unanchored patterns to match at any depth', () => {
+		assert.deepStrictEqual(gitignoreToGlobs('dist/\n*.log'), ['**/dist', '**/dist/**', '**/*.log', '**/*.log/**']);
+	});
+
+	test('keeps anchored patterns relative to the root', () => {
+		assert.deepStrictEqual(gitignoreToGlobs('/build\ntools/scripts'), ['build', 'build/**', 'tools/scripts', 'tools/scripts/**']);
+	});
+
+	test('skips comments, blank lines and negations', () => {
+		assert.deepStrictEqual(gitignoreToGlobs('# comment\n\n!keep.js\n'), []);
+	});
+});
+
+suite('buildExcludeGlob', () => {
+	test('combines patterns into a brace group', () => {
+		assert.strictEqual(buildExcludeGlob(['**/node_modules/**', '**/dist/**']), '{**/node_modules/**,**/dist/**}');
+	});
+
+	test('returns a single pattern as-is and removes duplicates', () => {
+		assert.strictEqual(buildExcludeGlob(['**/dist/**', '**/dist/**']), '**/dist/**');
+	});
+});
+
+suite('selectDetectedLanguages', () => {
+	test('detects every language with at least one file by default', () => {
+		assert.deepStrictEqual(selectDetectedLanguages({ 'TypeScript': 40, 'Python': 1, 'Go': 0 }, 1, 0), ['TypeScript', 'Python']);
+	});
+
+	test('applies the minimum file count', () => {
+		assert.deepStrictEqual(selectDetectedLanguages({ 'TypeScript': 40, 'Python': 1 }, 5, 0), ['TypeScript']);
+	});
+
+	test('applies the minimum percentage', () => {
+		assert.deepStrictEqual(selectDetectedLanguages({ 'TypeScript': 90, 'JavaScript': 10 }, 1, 20), ['TypeScript']);
+	});
+
+	test('returns nothing when no files match', () => {
+		assert.deepStrictEqual(selectDetectedLanguages({ 'TypeScript': 0 }, 1, 0), []);
+	});
+});
+
+// ============================================================================
+// Path-Scoped Instructions Tests
+// ============================================================================
+
+suite('getDestinationPath with applyTo', () => {
+	test('defaults to a file in .github/instructions named after the language', () => {
+		const result = getDestinationPath({ language: 'C#', url: 'https://example.com', applyTo: true });
+		assert.strictEqual(result.fullPath, '.github/instructions/csharp.instructions.md');
+	});
+
+	test('includes the framework and honors id', () => {
+		assert.strictEqual(
+			getDestinationPath({ language: 'TypeScript', framework: 'react', url: 'https://example.com', applyTo: '**/*.tsx' }).file,
+			'typescript-react.instructions.md'
+		);
+		assert.strictEqual(
+			getDestinationPath({ language: '*', id: 'Security', url: 'https://example.com', applyTo: true }).file,
+			'security.instructions.md'
+		);
+	});
+
+	test('applyTo false keeps the default destination', () => {
+		assert.strictEqual(getDestinationPath({ language: 'C#', url: 'https://example.com', applyTo: false }).fullPath, '.github/copilot-instructions.md');
+	});
+});
+
+suite('parseFrontmatter', () => {
+	test('returns content without frontmatter as the body', () => {
+		assert.deepStrictEqual(parseFrontmatter('# Title\n'), { attributes: {}, body: '# Title\n' });
+	});
+
+	test('parses attributes and keeps continuation lines', () => {
+		const result = parseFrontmatter('---\napplyTo: "**/*.ts"\ntools:\n  - search\n---\n# Title\n');
+		assert.deepStrictEqual(result.attributes, { applyTo: '"**/*.ts"', tools: '\n  - search' });
+		assert.strictEqual(result.body, '# Title\n');
+	});
+
+	test('rejects unterminated frontmatter', () => {
+		assert.throws(() => parseFrontmatter('---\napplyTo: "**"\n# Title\n'), /not terminated/);
+	});
+
+	test('rejects lines that are not key-value pairs', () => {
+		assert.throws(() => parseFrontmatter('---\njust text\n---\n'), /Invalid frontmatter line/);
+	});
+
+	test('rejects a non-string applyTo', () => {
+		assert.throws(() => parseFrontmatter('---\napplyTo: ["**/*.ts"]\n---\n'), /applyTo/);
+	});
+});
+
+suite('parseApplyTo', () => {
+	test('splits comma-separated globs and strips quotes', () => {
+		assert.deepStrictEqual(parseApplyTo('"**/*.ts, **/*.tsx"'), ['**/*.ts', '**/*.tsx']);
+		assert.deepStrictEqual(parseApplyTo("'src/**'"), ['src/**']);
+	});
+
+	test('returns undefined for empty values and lists', () => {
+		assert.strictEqual(parseApplyTo('""'), undefined);
+		assert.strictEqual(parseApplyTo('\n  - src/**'), undefined);
+	});
+});
+
+suite('serializeFrontmatter', () => {
+	test('writes attributes before the body', () => {
+		assert.strictEqual(
+			serializeFrontmatter({ attributes: { applyTo: '"**"', description: 'General' }, body: '# Title\n' }),
+			'---\napplyTo: "**"\ndescription: General\n---\n\n# Title\n'
+		);
+	});
+
+	test('returns the body alone without attributes', () => {
+		assert.strictEqual(serializeFrontmatter({ attributes: {}, body: '# Title\n' }), '# Title\n');
+	});
+});
+
+suite('getApplyToGlobs', () => {
+	test('uses explicit globs as-is', () => {
+		assert.deepStrictEqual(getApplyToGlobs({ language: 'C#', url: '', applyTo: 'src/**/*.cs' }, DEFAULT_LANGUAGE_PATTERNS), ['src/**/*.cs']);
+		assert.deepStrictEqual(getApplyToGlobs({ language: 'C#', url: '', applyTo: ['a/**', 'b/**'] }, DEFAULT_LANGUAGE_PATTERNS), ['a/**', 'b/**']);
+	});
+
+	test('derives globs from detection patterns', () => {
+		assert.deepStrictEqual(getApplyToGlobs({ language: 'typescript', url: '', applyTo: true }, DEFAULT_LANGUAGE_PATTERNS), ['**/*.ts', '**/*.tsx']);
+		assert.deepStrictEqual(getApplyToGlobs({ language: 'C#', url: '', applyTo: true }, DEFAULT_LANGUAGE_PATTERNS), ['**/*.cs', '**/*.csproj']);
+	});
+
+	test('applies general sources to every file', () => {
+		assert.deepStrictEqual(getApplyToGlobs({ language: '*', url: '', applyTo: true }, DEFAULT_LANGUAGE_PATTERNS), ['**']);
+	});
+
+	test('throws for languages without patterns', () => {
+		assert.throws(() => getApplyToGlobs({ language: 'Cobol', url: '', applyTo: true }, DEFAULT_LANGUAGE_PATTERNS), /Cobol/);
+	});
+});
+
+suite('composeScopedInstructions', () => {
+	test('adds applyTo frontmatter', () => {
+		const source = { language: 'Go', url: 'https://example.com/go.md', applyTo: true };
+		assert.strictEqual(
+			composeScopedInstructions([{ source, content: '# Go\n' }], DEFAULT_LANGUAGE_PATTERNS),
+			'---\napplyTo: "**/*.go"\n---\n\n# Go\n'
+		);
+	});
+
+	test('merges fetched frontmatter and prefers its applyTo for derived globs', () => {
+		const source = { language: 'Go', url: 'https://example.com/go.md', applyTo: true };
+		const content = '---\ndescription: Go rules\napplyTo: "cmd/**"\n---\n# Go\n';
+		assert.strictEqual(
+			composeScopedInstructions([{ source, content }], DEFAULT_LANGUAGE_PATTERNS),
+			'---\napplyTo: "cmd/**"\ndescription: Go rules\n---\n\n# Go\n'
+		);
+	});
+
+	test('explicit globs override fetched applyTo', () => {
+		const source = { language: 'Go', url: 'https://example.com/go.md', applyTo: 'internal/**' };
+		const content = '---\napplyTo: "cmd/**"\n---\n# Go\n';
+		assert.ok(composeScopedInstructions([{ source, content }], DEFAULT_LANGUAGE_PATTERNS).startsWith('---\napplyTo: "internal/**"\n---\n'));
+	});
+
+	test('unions globs of composed sources', () => {
+		const result = composeScopedInstructions([
+			{ source: { language: 'TypeScript', url: 'a', applyTo: true }, content: 'TS' },
+			{ source: { language: 'JavaScript', url: 'b', applyTo: true }, content: 'JS' }
+		], DEFAULT_LANGUAGE_PATTERNS);
+		assert.ok(result.startsWith('---\napplyTo: "**/*.ts,**/*.tsx,**/*.js,**/*.jsx"\n---\n\n## TypeScript\n\nTS\n\n## JavaScript\n\nJS\n'));
+	});
+
+	test('reports invalid fetched frontmatter with the source URL', () => {
+		const source = { language: 'Go', url: 'https://example.com/go.md', applyTo: true };
+		assert.throws(() => composeScopedInstructions([{ source, content: '---\nbroken\n' }], DEFAULT_LANGUAGE_PATTERNS), /go\.md/);
+	});
+});
+
+// ============================================================================
+// Output Adapter Tests
+// ============================================================================
+
+suite('getTargetSource', () => {
+	const source: InstructionSource = { language: 'TypeScript', url: 'https://example.com/ts.md', destinationFile: 'ts.md' };
+
+	test('returns copilot sources unchanged', () => {
+		assert.strictEqual(getTargetSource(source, 'copilot'), source);
+	});
+
+	test('writes shared files at the workspace root in managed blocks', () => {
+		const target = getTargetSource(source, 'agents');
+		assert.strictEqual(getDestinationPath(target).fullPath, 'AGENTS.md');
+		assert.strictEqual(target.managed, true);
+		assert.strictEqual(target.id, 'typescript');
+		assert.strictEqual(getDestinationPath(getTargetSource(source, 'claude')).fullPath, 'CLAUDE.md');
+		assert.strictEqual(getDestinationPath(getTargetSource(source, 'windsurf')).fullPath, '.windsurfrules');
+	});
+
+	test('writes one Cursor rule per source', () => {
+		const target = getTargetSource({ ...source, framework: 'react', managed: true }, 'cursor');
+		assert.strictEqual(getDestinationPath(target).fullPath, '.cursor/rules/typescript-react.mdc');
+		assert.strictEqual(target.managed, false);
+	});
+});
+
+suite('renderPlainInstructions', () => {
+	test('returns unscoped content unchanged', () => {
+		assert.strictEqual(renderPlainInstructions('# TS\n', { language: 'TypeScript', url: '' }), '# TS\n');
+	});
+
+	test('replaces applyTo frontmatter with a sentence', () => {
+		const source: InstructionSource = { language: 'TypeScript', url: '', applyTo: true };
+		assert.strictEqual(
+			renderPlainInstructions('---\napplyTo: "**/*.ts,**/*.tsx"\n---\n\n# TS\n', source),
+			'Apply these instructions to files matching `**/*.ts`, `**/*.tsx`.\n\n# TS\n'
+		);
+	});
+
+	test('drops frontmatter that applies to every file', () => {
+		const source: InstructionSource = { language: '*', url: '', applyTo: true };
+		assert.strictEqual(renderPlainInstructions('---\napplyTo: "**"\n---\n\n# General\n', source), '# General\n');
+	});
+});
+
+suite('renderCursorRule', () => {
+	test('always applies unscoped instructions', () => {
+		assert.strictEqual(
+			renderCursorRule('# Go\n', { language: 'Go', url: '' }, 'Go'),
+			'---\ndescription: Go instructions\nglobs:\nalwaysApply: true\n---\n\n# Go\n'
+		);
+	});
+
+	test('attaches path-scoped instructions to their globs', () => {
+		const source: InstructionSource = { language: 'Go', url: '', applyTo: true };
+		assert.strictEqual(
+			renderCursorRule('---\napplyTo: "**/*.go"\ndescription: Go rules\n---\n\n# Go\n', source, 'Go'),
+			'---\ndescription: Go rules\nglobs: **/*.go\nalwaysApply: false\n---\n\n# Go\n'
+		);
+	});
+});
+
+// ============================================================================
+// Directory Source Tests
+// ============================================================================
+
+suite('isBundleSource', () => {
+	test('detects GitHub tree URLs', () => {
+		assert.strictEqual(isBundleSource({ language: '*', url: 'https://github.com/org/repo/tree/main/prompts' }), true);
+		assert.strictEqual(isBundleSource({ language: '*', url: 'https://github.com/org/repo/blob/main/prompts/a.md' }), false);
+	});
+
+	test('detects local paths ending in a slash', () => {
+		assert.strictEqual(isBundleSource({ language: '*', url: '/shared/prompts/' }), true);
+		assert.strictEqual(isBundleSource({ language: '*', url: 'C:\\shared\\prompts\\' }), true);
+		assert.strictEqual(isBundleSource({ language: '*', url: '/shared/prompts.md' }), false);
+	});
+
+	test('honors an explicit type', () => {
+		assert.strictEqual(isBundleSource({ language: '*', url: '/shared/prompts', type: 'directory' }), true);
+		assert.strictEqual(isBundleSource({ language: '*', url: '/shared/prompts/', type: 'file' }), false);
+	});
+});
+
+suite('parseGitHubTreeUrl', () => {
+	test('parses github.com tree URLs', () => {
+		assert.deepStrictEqual(parseGitHubTreeUrl('https://github.com/org/repo/tree/main/.github/prompts'), {
+			apiBase: 'https://api.github.com', owner: 'org', repo: 'repo', ref: 'main', path: '.github/prompts'
+		});
+	});
+
+	test('parses the repository root', () => {
+		assert.strictEqual(parseGitHubTreeUrl('https://github.com/org/repo/tree/v1.2.0/')?.path, '');
+	});
+
+	test('uses the enterprise API base', () => {
+		assert.strictEqual(parseGitHubTreeUrl('https://mycompany.ghe.com/org/repo/tree/main/prompts')?.apiBase, 'https://api.mycompany.ghe.com');
+		assert.strictEqual(parseGitHubTreeUrl('https://code.github.com/org/repo/tree/main/prompts')?.apiBase, 'https://code.github.com/api/v3');
+	});
+
+	test('returns null for other URLs', () => {
+		assert.strictEqual(parseGitHubTreeUrl('https://github.com/org/repo/blob/main/file.md'), null);
+		assert.strictEqual(parseGitHubTreeUrl('https://example.com/org/repo/tree/main'), null);
+	});
+});
+
+suite('getPathBelow', () => {
+	test('returns paths relative to the directory', () => {
+		assert.strictEqual(getPathBelow('/prompts', '/prompts/review.prompt.md'), 'review.prompt.md');
+		assert.strictEqual(getPathBelow('prompts/', 'prompts/modes/plan.chatmode.md'), 'modes/plan.chatmode.md');
+	});
+
+	test('returns undefined outside the directory', () => {
+		assert.strictEqual(getPathBelow('prompts', 'prompts-old/a.md'), undefined);
+		assert.strictEqual(getPathBelow('prompts', 'prompts'), undefined);
+	});
+
+	test('keeps every path below the root', () => {
+		assert.strictEqual(getPathBelow('', 'a/b.md'), 'a/b.md');
+	});
+});
+
+suite('normalizeRelativePath', () => {
+	test('normalizes paths inside the folder', () => {
+		assert.strictEqual(normalizeRelativePath('modes/plan.chatmode.md'), 'modes/plan.chatmode.md');
+		assert.strictEqual(normalizeRelativePath('./modes//plan.chatmode.md'), 'modes/plan.chatmode.md');
+		assert.strictEqual(normalizeRelativePath('modes\\plan.chatmode.md'), 'modes/plan.chatmode.md');
+	});
+
+	test('rejects absolute paths and paths leaving the folder', () => {
+		for (const filePath of ['../settings.json', 'modes/../../.vscode/tasks.json', '/etc/passwd', '\\server\\share', 'C:\\Windows\\a.md', '', '.']) {
+			assert.strictEqual(normalizeRelativePath(filePath), undefined, filePath);
+		}
+	});
+});
+
+suite('checkBundleFiles', () => {
+	const url = 'https://gitlab.com/org/repo/-/tree/main/prompts';
+
+	test('sorts and normalizes the listed files', () => {
+		const files = checkBundleFiles(url, [{ path: './b.md', url: 'b' }, { path: 'a.md', url: 'a' }]);
+		assert.deepStrictEqual(files, [{ path: 'a.md', url: 'a' }, { path: 'b.md', url: 'b' }]);
+	});
+
+	test('rejects listed files outside the directory', () => {
+		assert.throws(
+			() => checkBundleFiles(url, [{ path: 'a.md', url: 'a' }, { path: '../../.vscode/tasks.json', url: 'b' }]),
+			/lists a file outside of it: \.\.\/\.\.\/\.vscode\/tasks\.json/
+		);
+	});
+});
+
+suite('getBundleLockFiles', () => {
+	test('ignores lock file paths outside the destination folder', () => {
+		const entry: LockEntry = {
+			destination: '.github/prompts',
+			sha256: 'x',
+			syncedAt: '2026-01-01T00:00:00.000Z',
+			sources: [],
+			files: { 'a.prompt.md': 'aaa', '../../package.json': 'bbb', '/home/dev/.bashrc': 'ccc' }
+		};
+		assert.deepStrictEqual(getBundleLockFiles(entry), { 'a.prompt.md': 'aaa' });
+		assert.deepStrictEqual(getBundleLockFiles(undefined), {});
+	});
+});
+
+suite('createBundleLockEntry', () => {
+	test('records every file and a manifest hash', () => {
+		const source: InstructionSource = { language: '*', url: 'https://github.com/org/repo/tree/main/prompts', destinationFolder: '.github/prompts' };
+		const entry = createBundleLockEntry(source, { 'b.prompt.md': 'bbb', 'a.prompt.md': 'aaa' });
+		assert.strictEqual(entry.destination, '.github/prompts');
+		assert.deepStrictEqual(Object.keys(entry.files!), ['a.prompt.md', 'b.prompt.md']);
+		assert.strictEqual(entry.sha256, computeSha256('aaa  a.prompt.md\nbbb  b.prompt.md\n'));
+		assert.strictEqual(entry.sources[0].sha256, entry.sha256);
+	});
+
+	test('changes when a file is removed', () => {
+		const source: InstructionSource = { language: '*', url: '/shared/prompts/' };
+		assert.notStrictEqual(
+			createBundleLockEntry(source, { 'a.md': 'aaa', 'b.md': 'bbb' }).sha256,
+			createBundleLockEntry(source, { 'a.md': 'aaa' }).sha256
+		);
+	});
+});
+
+// ============================================================================
+// Ref Pinning Tests
+// ============================================================================
+
+suite('applyRef', () => {
+	test('replaces the ref of raw.githubusercontent.com URLs', () => {
+		assert.strictEqual(
+			applyRef('https://raw.githubusercontent.com/org/repo/main/lang/csharp.md', 'v1.2.0'),
+			'https://raw.githubusercontent.com/org/repo/v1.2.0/lang/csharp.md'
+		);
+	});
+
+	test('replaces the ref of blob and tree URLs', () => {
+		assert.strictEqual(
+			applyRef('https://github.com/org/repo/tree/main/prompts', 'v2.0.0'),
+			'https://github.com/org/repo/tree/v2.0.0/prompts'
+		);
+		assert.strictEqual(
+			applyRef('https://mycompany.ghe.com/org/repo/blob/main/a.md', 'abc123'),
+			'https://mycompany.ghe.com/org/repo/blob/abc123/a.md'
+		);
+	});
+
+	test('sets the ref parameter of contents API URLs', () => {
+		assert.strictEqual(
+			applyRef('https://api.github.com/repos/org/repo/contents/a.md?ref=main', 'v1.0.0'),
+			'https://api.github.com/repos/org/repo/contents/a.md?ref=v1.0.0'
+		);
+	});
+
+	test('sets the version descriptor of Azure DevOps items URLs', () => {
+		const result = new URL(applyRef('https://dev.azure.com/org/project/_apis/git/repositories/repo/items?path=/a.md', 'v1.0.0'));
+		assert.strictEqual(result.searchParams.get('path'), '/a.md');
+		assert.strictEqual(result.searchParams.get('versionDescriptor.version'), 'v1.0.0');
+		assert.strictEqual(result.searchParams.get('versionDescriptor.versionType'), 'tag');
+	});
+
+	test('leaves other URLs and local paths unchanged', () => {
+		assert.strictEqual(applyRef('https://example.com/a.md', 'v1.0.0'), 'https://example.com/a.md');
+		assert.strictEqual(applyRef('/shared/a.md', 'v1.0.0'), '/shared/a.md');
+		assert.strictEqual(applyRef('https://github.com/org/repo/tree/main/prompts'), 'https://github.com/org/repo/tree/main/prompts');
+	});
+});
+
+suite('getAzureDevOpsVersion', () => {
+	test('detects commits, tags and branches', () => {
+		assert.deepStrictEqual(getAzureDevOpsVersion('0123456789abcdef0123456789abcdef01234567').versionType, 'commit');
+		assert.deepStrictEqual(getAzureDevOpsVersion('refs/tags/release-2024'), { version: 'release-2024', versionType: 'tag' });
+		assert.deepStrictEqual(getAzureDevOpsVersion('v1.4.0'), { version: 'v1.4.0', versionType: 'tag' });
+		assert.deepStrictEqual(getAzureDevOpsVersion('heads/feature/x'), { version: 'feature/x', versionType: 'branch' });
+		assert.deepStrictEqual(getAzureDevOpsVersion('main'), { version: 'main', versionType: 'branch' });
+	});
+});
+
+suite('parseSemVer', () => {
+	test('parses versions with a v prefix and pre-release', () => {
+		assert.deepStrictEqual(parseSemVer('v1.2.3'), { major: 1, minor: 2, patch: 3, prerelease: undefined });
+		assert.deepStrictEqual(parseSemVer('2.0.0-beta.1'), { major: 2, minor: 0, patch: 0, prerelease: 'beta.1' });
+	});
+
+	test('returns null for other refs', () => {
+		assert.strictEqual(parseSemVer('main'), null);
+		assert.strictEqual(parseSemVer('v1.2'), null);
+	});
+});
+
+suite('compareSemVer', () => {
+	test('orders by major, minor, patch and pre-release', () => {
+		assert.ok(compareSemVer(parseSemVer('1.10.0')!, parseSemVer('1.9.9')!) > 0);
+		assert.ok(compareSemVer(parseSemVer('1.0.0-rc.1')!, parseSemVer('1.0.0')!) < 0);
+		assert.strictEqual(compareSemVer(parseSemVer('v1.0.0')!, parseSemVer('1.0.0')!), 0);
+	});
+
+	test('compares pre-release identifiers numerically', () => {
+		assert.ok(compareSemVer(parseSemVer('1.0.0-beta.10')!, parseSemVer('1.0.0-beta.9')!) > 0);
+		assert.ok(compareSemVer(parseSemVer('1.0.0-beta.2')!, parseSemVer('1.0.0-beta.11')!) < 0);
+		assert.ok(compareSemVer(parseSemVer('1.0.0-alpha.1')!, parseSemVer('1.0.0-alpha.beta')!) < 0);
+		assert.ok(compareSemVer(parseSemVer('1.0.0-alpha')!, parseSemVer('1.0.0-alpha.1')!) < 0);
+		assert.ok(compareSemVer(parseSemVer('1.0.0-beta')!, parseSemVer('1.0.0-alpha.1')!) > 0);
+	});
+});
+
+suite('satisfiesRange', () => {
+	const satisfies = (version: string, range: string) => satisfiesRange(parseSemVer(version)!, range);
+
+	test('supports caret ranges', () => {
+		assert.strictEqual(satisfies('1.9.0', '^1.2.0'), true);
+		assert.strictEqual(satisfies('2.0.0', '^1.2.0'), false);
+		assert.strictEqual(satisfies('0.2.5', '^0.2.3'), true);
+		assert.strictEqual(satisfies('0.3.0', '^0.2.3'), false);
+	});
+
+	test('supports tilde and x-ranges', () => {
+		assert.strictEqual(satisfies('1.2.9', '~1.2.0'), true);
+		assert.strictEqual(satisfies('1.3.0', '~1.2.0'), false);
+		assert.strictEqual(satisfies('1.7.0', '1.x'), true);
+		assert.strictEqual(satisfies('2.0.0', '1'), false);
+		assert.strictEqual(satisfies('5.0.0', '*'), true);
+	});
+
+	test('supports comparators, exact versions and alternatives', () => {
+		assert.strictEqual(satisfies('2.5.0', '>=1.2.0 <3.0.0'), true);
+		assert.strictEqual(satisfies('3.0.0', '>=1.2.0 <3.0.0'), false);
+		assert.strictEqual(satisfies('1.2.3', '1.2.3'), true);
+		assert.strictEqual(satisfies('4.1.0', '^1.0.0 || ^4.0.0'), true);
+	});
+
+	test('accepts whitespace after the operator', () => {
+		assert.strictEqual(satisfies('1.5.0', '>= 1.2.0'), true);
+		assert.strictEqual(satisfies('2.5.0', '>= 1.2.0 < 2.0.0'), false);
+		assert.strictEqual(satisfies('1.2.4', '~ 1.2.0 || = 3.0.0'), true);
+	});
+
+	test('excludes pre-releases unless the range names one', () => {
+		assert.strictEqual(satisfies('1.3.0-beta.1', '^1.2.0'), false);
+		assert.strictEqual(satisfies('1.3.0-beta.2', '>=1.3.0-beta.1'), true);
+		assert.strictEqual(satisfies('1.3.0-beta.10', '>1.3.0-beta.9'), true);
+	});
+
+	test('throws for invalid ranges', () => {
+		assert.throws(() => satisfies('1.0.0', 'latest'), /Invalid version range/);
+	});
+});
+
+suite('findLatestVersion', () => {
+	test('returns the highest release tag within the range', () => {
+		const tags = ['v1.0.0', 'v1.4.2', 'v1.10.0', 'v2.0.0', 'v1.11.0-rc.1', 'nightly'];
+		assert.strictEqual(findLatestVersion(tags, '^1.0.0'), 'v1.10.0');
+		assert.strictEqual(findLatestVersion(tags, '>=2.0.0'), 'v2.0.0');
+	});
+
+	test('returns undefined when no tag matches', () => {
+		assert.strictEqual(findLatestVersion(['v1.0.0'], '^3.0.0'), undefined);
+	});
+});
+
+// ============================================================================
+// HTTP Cache Tests
+// ============================================================================
+
+suite('getHttpCacheKey', () => {
+	const url = 'https://git.corp.com/api/v4/projects/1/repository/files/a.md/raw';
+
+	test('differs by credentials and Accept header', () => {
+		const anonymous = getHttpCacheKey(url, {});
+		assert.notStrictEqual(getHttpCacheKey(url, { 'Authorization': 'Bearer a' }), anonymous);
+		assert.notStrictEqual(getHttpCacheKey(url, { 'Authorization': 'Bearer a' }), getHttpCacheKey(url, { 'Authorization': 'Bearer b' }));
+		assert.notStrictEqual(getHttpCacheKey(url, { 'PRIVATE-TOKEN': 'secret' }), anonymous);
+		assert.notStrictEqual(getHttpCacheKey(url, { 'Accept': 'application/json' }), anonymous);
+		assert.notStrictEqual(getHttpCacheKey(`${url}?ref=main`, {}), anonymous);
+	});
+
+	test('ignores header name case and conditional headers', () => {
+		assert.strictEqual(getHttpCacheKey(url, { 'Private-Token': 'secret' }), getHttpCacheKey(url, { 'PRIVATE-TOKEN': 'secret' }));
+		assert.strictEqual(getHttpCacheKey(url, { 'If-None-Match': '"abc"', 'If-Modified-Since': 'Mon, 01 Jan 2026 00:00:00 GMT' }), getHttpCacheKey(url, {}));
+	});
+
+	test('does not contain the credentials', () => {
+		assert.match(getHttpCacheKey(url, { 'Authorization': 'Bearer secret' }), /^[0-9a-f]{64}$/);
+	});
+});
+
+suite('getConditionalHeaders', () => {
+	test('sends the validators of the cached copy', () => {
+		const cached: CachedResponse = { url: 'u', content: 'c', etag: '"abc"', lastModified: 'Mon, 01 Jan 2026 00:00:00 GMT', fetchedAt: '2026-01-01T00:00:00.000Z' };
+		assert.deepStrictEqual(getConditionalHeaders(cached), { 'If-None-Match': '"abc"', 'If-Modified-Since': 'Mon, 01 Jan 2026 00:00:00 GMT' });
+		assert.deepStrictEqual(getConditionalHeaders({ ...cached, etag: undefined }), { 'If-Modified-Since': 'Mon, 01 Jan 2026 00:00:00 GMT' });
+	});
+
+	test('sends nothing without a cached copy', () => {
+		assert.deepStrictEqual(getConditionalHeaders(undefined), {});
+	});
+});
+
+suite('createCachedResponse', () => {
+	const cached: CachedResponse = { url: 'u', content: '# Cached', etag: '"v1"', lastModified: 'Mon, 01 Jan 2026 00:00:00 GMT', fetchedAt: '2026-01-01T00:00:00.000Z' };
+
+	test('stores the body and validators of a download', () => {
+		const entry = createCachedResponse('u', 200, new Headers({ 'ETag': '"v2"' }), '# New', cached);
+		assert.strictEqual(entry.content, '# New');
+		assert.strictEqual(entry.etag, '"v2"');
+		assert.strictEqual(entry.lastModified, undefined);
+		assert.ok(Date.parse(entry.fetchedAt) > Date.parse(cached.fetchedAt));
+	});
+
+	test('serves the cached body on a 304', () => {
+		const entry = createCachedResponse('u', 304, new Headers(), '', cached);
+		assert.strictEqual(entry.content, '# Cached');
+		assert.strictEqual(entry.etag, '"v1"');
+		assert.strictEqual(entry.lastModified, 'Mon, 01 Jan 2026 00:00:00 GMT');
+		assert.strictEqual(createCachedResponse('u', 304, new Headers({ 'ETag': '"v1b"' }), '', cached).etag, '"v1b"');
+	});
+});
+
+suite('HTTP cache storage', () => {
+	const folder = vscode.Uri.file(`${os.tmpdir()}/instruction-sync-cache-${process.pid}`);
+	const response: CachedResponse = { url: 'https://example.com/a.md', content: '# A', etag: '"abc"', fetchedAt: '2026-01-01T00:00:00.000Z' };
+
+	teardown(async () => {
+		await clearHttpCache(folder);
+	});
+
+	test('reads back written responses', async () => {
+		await writeCachedResponse(folder, 'key', response);
+		assert.deepStrictEqual(await readCachedResponse(folder, 'key', response.url), response);
+		assert.strictEqual(await readCachedResponse(folder, 'other', response.url), undefined);
+	});
+
+	test('ignores entries of another URL', async () => {
+		await writeCachedResponse(folder, 'key', response);
+		assert.strictEqual(await readCachedResponse(folder, 'key', 'https://example.com/b.md'), undefined);
+	});
+
+	test('clears every cached response', async () => {
+		await writeCachedResponse(folder, 'key', response);
+		await clearHttpCache(folder);
+		assert.strictEqual(await readCachedResponse(folder, 'key', response.url), undefined);
+		// Clearing an empty cache succeeds
+		await clearHttpCache(folder);
+	});
+});
+
+// ============================================================================
+// Retry and Rate Limit Tests
+// ============================================================================
+
+suite('parseRetryAfter', () => {
+	test('parses delays in seconds', () => {
+		assert.strictEqual(parseRetryAfter('120'), 120000);
+	});
+
+	test('parses HTTP dates relative to now', () => {
+		const now = Date.parse('Mon, 01 Jan 2026 00:00:00 GMT');
+		assert.strictEqual(parseRetryAfter('Mon, 01 Jan 2026 00:00:30 GMT', now), 30000);
+		assert.strictEqual(parseRetryAfter('Sun, 31 Dec 2025 23:00:00 GMT', now), 0);
+	});
+
+	test('returns undefined for missing or invalid values', () => {
+		assert.strictEqual(parseRetryAfter(null), undefined);
+		assert.strictEqual(parseRetryAfter('soon'), undefined);
+	});
+});
+
+suite('getBackoffDelay', () => {
+	test('grows exponentially with jitter', () => {
+		for (let attempt = 0; attempt < 3; attempt++) {
+			const delay = getBackoffDelay(attempt);
+			const max = 1000 * 2 ** attempt;
+			assert.ok(delay >= max / 2 && delay <= max, `attempt ${attempt}: ${delay}`);
+		}
+	});
+
+	test('is capped', () => {
+		assert.ok(getBackoffDelay(20) <= 30000);
+	});
+});
+
+suite('getRateLimitReset', () => {
+	const headers = (values: Record<string, string>) => ({ get: (name: string) => values[name] ?? null });
+	const now = Date.parse('Mon, 01 Jan 2026 00:00:00 GMT');
+
+	test('uses X-RateLimit-Reset when the limit is exhausted', () => {
+		assert.strictEqual(
+			getRateLimitReset(403, headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1767225900' }), now),
+			1767225900000
+		);
+	});
+
+	test('uses Retry-After for 429 responses', () => {
+		assert.strictEqual(getRateLimitReset(429, headers({ 'retry-after': '60' }), now), now + 60000);
+	});
+
+	test('returns undefined while requests remain', () => {
+		assert.strictEqual(getRateLimitReset(403, headers({ 'x-ratelimit-remaining': '12' }), now), undefined);
+		assert.strictEqual(getRateLimitReset(200, headers({}), now), undefined);
+	});
+});
+
+suite('createRateLimitError', () => {
+	const resetAt = Date.parse('2026-01-01T00:05:00Z');
+
+	test('suggests signing in only for anonymous GitHub requests', () => {
+		assert.match(createRateLimitError('https://api.github.com/repos/o/r/contents/a.md', resetAt, false).message, /Signing in to GitHub/);
+		assert.doesNotMatch(createRateLimitError('https://api.github.com/repos/o/r/contents/a.md', resetAt, true).message, /Signing in/);
+		assert.doesNotMatch(createRateLimitError('https://gitlab.com/api/v4/projects/1/repository/files/a.md/raw', resetAt, false).message, /Signing in/);
+	});
+});
+
+suite('fetchWithRetry', () => {
+	let server: http.Server;
+	let requests: number;
+	let respond: (response: http.ServerResponse) => void;
+	let url: string;
+
+	setup(async () => {
+		requests = 0;
+		server = http.createServer((_, response) => {
+			requests++;
+			respond(response);
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		url = `http://127.0.0.1:${(server.address() as { port: number }).port}/a.md`;
+	});
+
+	teardown(async () => {
+		await new Promise(resolve => server.close(resolve));
+	});
+
+	test('retries a 429 after its Retry-After delay', async () => {
+		respond = response => {
+			response.writeHead(requests === 1 ? 429 : 200, { 'Retry-After': '0' });
+			response.end('# A');
+		};
+		const response = await fetchWithRetry(url, {});
+		assert.strictEqual(response.status, 200);
+		assert.strictEqual(await response.text(), '# A');
+		assert.strictEqual(requests, 2);
+	});
+
+	test('reports a rate limit that resets later and skips the host until then', async () => {
+		respond = response => {
+			response.writeHead(429, { 'Retry-After': '3600' });
+			response.end();
+		};
+		await assert.rejects(fetchWithRetry(url, {}), /Rate limit of 127\.0\.0\.1:\d+ exceeded/);
+		await assert.rejects(fetchWithRetry(url, {}), /Rate limit/);
+		assert.strictEqual(requests, 1);
+	});
+
+	test('does not retry client errors', async () => {
+		respond = response => {
+			response.writeHead(404);
+			response.end();
+		};
+		assert.strictEqual((await fetchWithRetry(url, {})).status, 404);
+		assert.strictEqual(requests, 1);
+	});
+});
+
+// ============================================================================
+// Proxy Tests
+// ============================================================================
+
+suite('isProxyBypassed', () => {
+	test('matches hosts and their subdomains', () => {
+		assert.strictEqual(isProxyBypassed('https://corp.example.com/a.md', ['example.com']), true);
+		assert.strictEqual(isProxyBypassed('https://example.com/a.md', ['.example.com']), true);
+		assert.strictEqual(isProxyBypassed('https://wiki.example.com/a.md', ['*.example.com']), true);
+		assert.strictEqual(isProxyBypassed('https://badexample.com/a.md', ['example.com']), false);
+	});
+
+	test('respects ports', () => {
+		assert.strictEqual(isProxyBypassed('http://localhost:8080/a.md', ['localhost:8080']), true);
+		assert.strictEqual(isProxyBypassed('http://localhost:3000/a.md', ['localhost:8080']), false);
+	});
+
+	test('supports the wildcard and empty lists', () => {
+		assert.strictEqual(isProxyBypassed('https://github.com/a.md', ['*']), true);
+		assert.strictEqual(isProxyBypassed('https://github.com/a.md', []), false);
+	});
+});
+
+suite('markHostOffline', () => {
+	test('reports each host once until it is back online', () => {
+		assert.strictEqual(markHostOffline('wiki.corp.test'), true);
+		assert.strictEqual(markHostOffline('wiki.corp.test'), false);
+		assert.strictEqual(markHostOnline('wiki.corp.test'), true);
+		assert.strictEqual(markHostOnline('wiki.corp.test'), false);
+		assert.strictEqual(markHostOffline('wiki.corp.test'), true);
+		markHostOnline('wiki.corp.test');
+	});
+
+	test('tracks hosts independently', () => {
+		assert.strictEqual(markHostOffline('git.corp.test'), true);
+		// Another host answering doesn't end offline mode for the unreachable one
+		assert.strictEqual(markHostOnline('github.test'), false);
+		assert.strictEqual(markHostOffline('git.corp.test'), false);
+		assert.strictEqual(markHostOffline('docs.corp.test'), true);
+		markHostOnline('git.corp.test');
+		markHostOnline('docs.corp.test');
+	});
+});
+
+suite('isNetworkError', () => {
+	function withCode(message: string, code: string): Error {
+		return Object.assign(new Error(message), { code });
+	}
+
+	test('detects connection failures wrapped by fetch', () => {
+		const refused = new TypeError('fetch failed', { cause: withCode('connect ECONNREFUSED 127.0.0.1:443', 'ECONNREFUSED') });
+		assert.strictEqual(isNetworkError(refused), true);
+		assert.strictEqual(isNetworkError(new TypeError('fetch failed', { cause: withCode('getaddrinfo ENOTFOUND corp.com', 'ENOTFOUND') })), true);
+		assert.strictEqual(isNetworkError(new TypeError('fetch failed', { cause: new AggregateError([refused]) })), true);
+	});
+
+	test('detects timeouts', () => {
+		const timeout = new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+		assert.strictEqual(isNetworkError(timeout), true);
+		assert.strictEqual(isNetworkError(new Error('Timed out after 30s', { cause: timeout })), true);
+	});
+
+	test('rejects malformed URLs', () => {
+		let error: unknown;
+		try {
+			new URL('not a url');
+		} catch (e) {
+			error = e;
+		}
+		assert.strictEqual(isNetworkError(error), false);
+	});
+
+	test('rejects certificate errors', () => {
+		assert.strictEqual(isNetworkError(new Error('Failed to read CA certificate /missing/ca.pem: ENOENT')), false);
+		assert.strictEqual(isNetworkError(new TypeError('fetch failed', { cause: withCode('self-signed certificate', 'DEPTH_ZERO_SELF_SIGNED_CERT') })), false);
+		assert.strictEqual(isNetworkError(new TypeError('fetch failed', { cause: withCode('unable to verify the first certificate', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE') })), false);
+	});
+});
+
+// ============================================================================
+// Host Credential Tests
+// ============================================================================
+
+suite('matchesHostPattern', () => {
+	test('matches exact hosts case-insensitively', () => {
+		assert.strictEqual(matchesHostPattern('https://Artifactory.corp.com/a.md', 'artifactory.corp.com'), true);
+		assert.strictEqual(matchesHostPattern('https://corp.com/a.md', 'artifactory.corp.com'), false);
+	});
+
+	test('matches subdomains with a wildcard', () => {
+		assert.strictEqual(matchesHostPattern('https://wiki.corp.com/a.md', '*.corp.com'), true);
+		assert.strictEqual(matchesHostPattern('https://corp.com/a.md', '*.corp.com'), false);
+		assert.strictEqual(matchesHostPattern('https://evilcorp.com/a.md', '*.corp.com'), false);
+	});
+
+	test('respects ports and path prefixes', () => {
+		assert.strictEqual(matchesHostPattern('https://wiki.corp.com:8443/a.md', 'wiki.corp.com:8443'), true);
+		assert.strictEqual(matchesHostPattern('https://wiki.corp.com/a.md', 'wiki.corp.com:8443'), false);
+		assert.strictEqual(matchesHostPattern('https://wiki.corp.com/team/docs/a.md', 'wiki.corp.com/team/docs'), true);
+		assert.strictEqual(matchesHostPattern('https://wiki.corp.com/team/docs-old/a.md', 'wiki.corp.com/team/docs'), false);
+	});
+
+	test('ignores invalid URLs', () => {
+		assert.strictEqual(matchesHostPattern('not a url', 'corp.com'), false);
+	});
+});
+
+suite('findHostPattern', () => {
+	test('prefers path prefixes, then exact hosts', () => {
+		const patterns = ['*.corp.com', 'wiki.corp.com', 'wiki.corp.com/team'];
+		assert.strictEqual(findHostPattern('https://wiki.corp.com/team/a.md', patterns), 'wiki.corp.com/team');
+		assert.strictEqual(findHostPattern('https://wiki.corp.com/other/a.md', patterns), 'wiki.corp.com');
+		assert.strictEqual(findHostPattern('https://git.corp.com/a.md', patterns), '*.corp.com');
+		assert.strictEqual(findHostPattern('https://example.com/a.md', patterns), undefined);
+	});
+});
+
+suite('getCredentialHeaders', () => {
+	test('builds bearer, basic and custom headers', () => {
+		assert.deepStrictEqual(getCredentialHeaders({ type: 'bearer', secret: 'abc' }), { 'Authorization': 'Bearer abc' });
+		assert.deepStrictEqual(
+			getCredentialHeaders({ type: 'basic', username: 'user', secret: 'pass' }),
+			{ 'Authorization': `Basic ${Buffer.from('user:pass').toString('base64')}` }
+		);
+		assert.deepStrictEqual(getCredentialHeaders({ type: 'header', header: 'X-JFrog-Art-Api', secret: 'key' }), { 'X-JFrog-Art-Api': 'key' });
+	});
+});
+
+suite('validateSourceHeaders', () => {
+	test('allows non-secret headers', () => {
+		assert.doesNotThrow(() => validateSourceHeaders({ 'X-Team': 'payments' }));
+	});
+
+	test('rejects credentials', () => {
+		assert.throws(() => validateSourceHeaders({ 'authorization': 'Bearer abc' }), /Set Credentials for Host/);
+		assert.throws(() => validateSourceHeaders({ 'Cookie': 'session=1' }), /Cookie/);
+	});
+});
+
+// ============================================================================
+// GitLab and Bitbucket Tests
+// ============================================================================
+
+suite('isGitLabUrl', () => {
+	test('detects GitLab.com and self-managed hosts', () => {
+		assert.strictEqual(isGitLabUrl('https://gitlab.com/group/project/-/raw/main/a.md'), true);
+		assert.strictEqual(isGitLabUrl('https://gitlab.corp.com/group/project/-/blob/main/a.md'), true);
+		assert.strictEqual(isGitLabUrl('https://code.corp.com/group/project/-/raw/main/a.md'), true);
+		assert.strictEqual(isGitLabUrl('https://code.corp.com/api/v4/projects/42/repository/files/a.md/raw'), true);
+	});
+
+	test('rejects other URLs', () => {
+		assert.strictEqual(isGitLabUrl('https://github.com/org/repo/blob/main/a.md'), false);
+		assert.strictEqual(isGitLabUrl('not a url'), false);
+	});
+});
+
+suite('isBitbucketUrl', () => {
+	test('detects Bitbucket Cloud', () => {
+		assert.deepStrictEqual(isBitbucketUrl('https://bitbucket.org/ws/repo/raw/main/a.md'), { isBitbucket: true, isServer: false });
+	});
+
+	test('detects Bitbucket Server', () => {
+		assert.deepStrictEqual(isBitbucketUrl('https://git.corp.com/projects/STD/repos/docs/raw/a.md?at=main'), { isBitbucket: true, isServer: true });
+		assert.deepStrictEqual(isBitbucketUrl('https://git.corp.com/rest/api/1.0/projects/STD/repos/docs/raw/a.md'), { isBitbucket: true, isServer: true });
+	});
+
+	test('rejects other URLs', () => {
+		assert.deepStrictEqual(isBitbucketUrl('https://example.com/a.md'), { isBitbucket: false, isServer: false });
+	});
+});
+
+suite('parseGitLabUrl', () => {
+	test('parses web URLs with nested groups', () => {
+		assert.deepStrictEqual(parseGitLabUrl('https://gitlab.com/org/team/standards/-/blob/v1.0.0/copilot/ts.md'), {
+			apiBase: 'https://gitlab.com/api/v4',
+			project: 'org/team/standards',
+			ref: 'v1.0.0',
+			path: 'copilot/ts.md',
+			type: 'file'
+		});
+	});
+
+	test('parses tree URLs as directories', () => {
+		const location = parseGitLabUrl('https://gitlab.com/org/standards/-/tree/main/prompts/');
+		assert.strictEqual(location?.type, 'directory');
+		assert.strictEqual(location?.path, 'prompts');
+	});
+
+	test('parses files API URLs', () => {
+		assert.deepStrictEqual(parseGitLabUrl('https://code.corp.com/api/v4/projects/org%2Fstandards/repository/files/docs%2Fa.md/raw?ref=main'), {
+			apiBase: 'https://code.corp.com/api/v4',
+			project: 'org/standards',
+			ref: 'main',
+			path: 'docs/a.md',
+			type: 'file'
+		});
+	});
+
+	test('returns null for other URLs', () => {
+		assert.strictEqual(parseGitLabUrl('https://gitlab.com/org/standards'), null);
+		assert.strictEqual(parseGitLabUrl('https://github.com/org/repo/tree/main'), null);
+	});
+});
+
+suite('parseBitbucketUrl', () => {
+	test('parses Bitbucket Cloud web URLs', () => {
+		assert.deepStrictEqual(parseBitbucketUrl('https://bitbucket.org/ws/standards/src/main/copilot/ts.md'), {
+			apiBase: 'https://api.bitbucket.org/2.0',
+			isServer: false,
+			project: 'ws',
+			repo: 'standards',
+			ref: 'main',
+			path: 'copilot/ts.md',
+			type: 'file'
+		});
+	});
+
+	test('parses Bitbucket Server URLs behind a context path', () => {
+		assert.deepStrictEqual(parseBitbucketUrl('https://git.corp.com/bitbucket/projects/STD/repos/docs/browse/copilot/ts.md?at=refs%2Ftags%2Fv1.0.0'), {
+			apiBase: 'https://git.corp.com/bitbucket/rest/api/1.0',
+			isServer: true,
+			project: 'STD',
+			repo: 'docs',
+			ref: 'refs/tags/v1.0.0',
+			path: 'copilot/ts.md',
+			type: 'file'
+		});
+	});
+
+	test('treats trailing slashes and the files API as directories', () => {
+		assert.strictEqual(parseBitbucketUrl('https://bitbucket.org/ws/standards/src/main/prompts/')?.type, 'directory');
+		assert.strictEqual(parseBitbucketUrl('https://git.corp.com/rest/api/1.0/projects/STD/repos/docs/files/prompts')?.type, 'directory');
+	});
+});
+
+suite('getApiFileUrl', () => {
+	test('rewrites GitLab web URLs to the files API', () => {
+		assert.strictEqual(
+			getApiFileUrl('https://gitlab.com/org/standards/-/raw/main/docs/a.md'),
+			'https://gitlab.com/api/v4/projects/org%2Fstandards/repository/files/docs%2Fa.md/raw?ref=main'
+		);
+	});
+
+	test('rewrites Bitbucket web URLs to the raw content API', () => {
+		assert.strictEqual(
+			getApiFileUrl('https://bitbucket.org/ws/standards/raw/v1.0.0/docs/a.md'),
+			'https://api.bitbucket.org/2.0/repositories/ws/standards/src/v1.0.0/docs/a.md'
+		);
+		assert.strictEqual(
+			getApiFileUrl('https://git.corp.com/projects/STD/repos/docs/browse/a.md?at=main'),
+			'https://git.corp.com/rest/api/1.0/projects/STD/repos/docs/raw/a.md?at=main'
+		);
+	});
+
+	test('leaves other URLs unchanged', () => {
+		const url = 'https://raw.githubusercontent.com/org/repo/main/a.md';
+		assert.strictEqual(getApiFileUrl(url), url);
+	});
+});
+
+suite('applyRef (GitLab and Bitbucket)', () => {
+	test('replaces the ref of GitLab URLs', () => {
+		assert.strictEqual(applyRef('https://gitlab.com/org/repo/-/raw/main/a.md', 'v2.0.0'), 'https://gitlab.com/org/repo/-/raw/v2.0.0/a.md');
+		assert.strictEqual(
+			applyRef('https://gitlab.com/api/v4/projects/42/repository/files/a.md/raw?ref=main', 'v2.0.0'),
+			'https://gitlab.com/api/v4/projects/42/repository/files/a.md/raw?ref=v2.0.0'
+		);
+	});
+
+	test('replaces the ref of Bitbucket URLs', () => {
+		assert.strictEqual(applyRef('https://bitbucket.org/ws/repo/src/main/a.md', 'v2.0.0'), 'https://bitbucket.org/ws/repo/src/v2.0.0/a.md');
+		assert.strictEqual(
+			applyRef('https://git.corp.com/projects/STD/repos/docs/raw/a.md', 'v2.0.0'),
+			'https://git.corp.com/projects/STD/repos/docs/raw/a.md?at=v2.0.0'
+		);
+	});
+});
+
+suite('resolveIncludeTarget (GitLab)', () => {
+	test('resolves within the encoded file path of the files API', () => {
+		assert.strictEqual(
+			resolveIncludeTarget('https://gitlab.com/api/v4/projects/42/repository/files/docs%2Fts.md/raw?ref=main', '../shared/security.md'),
+			'https://gitlab.com/api/v4/projects/42/repository/files/shared%2Fsecurity.md/raw?ref=main'
+		);
+	});
+});
+
+suite('isBundleSource (GitLab and Bitbucket)', () => {
+	test('detects GitLab tree and Bitbucket folder URLs', () => {
+		assert.strictEqual(isBundleSource({ language: '*', url: 'https://gitlab.com/org/repo/-/tree/main/prompts' }), true);
+		assert.strictEqual(isBundleSource({ language: '*', url: 'https://bitbucket.org/ws/repo/src/main/prompts/' }), true);
+		assert.strictEqual(isBundleSource({ language: '*', url: 'https://gitlab.com/org/repo/-/blob/main/a.md' }), false);
+	});
+});
+
+// ============================================================================
+// Source URL Normalization Tests
+// ============================================================================
+
+suite('normalizeSourceUrl', () => {
+	test('converts GitHub blob and raw pages to raw.githubusercontent.com', () => {
+		assert.strictEqual(
+			normalizeSourceUrl('https://github.com/org/repo/blob/main/docs/ts.md'),
+			'https://raw.githubusercontent.com/org/repo/main/docs/ts.md'
+		);
+		assert.strictEqual(
+			normalizeSourceUrl('https://github.com/org/repo/raw/v1.0.0/ts.md#L10'),
+			'https://raw.githubusercontent.com/org/repo/v1.0.0/ts.md'
+		);
+	});
+
+	test('converts GitHub Enterprise blob pages to the contents API', () => {
+		assert.strictEqual(
+			normalizeSourceUrl('https://corp.ghe.com/org/repo/blob/main/ts.md'),
+			'https://api.corp.ghe.com/repos/org/repo/contents/ts.md?ref=main'
+		);
+	});
+
+	test('converts Azure DevOps web pages to the items API', () => {
+		assert.strictEqual(
+			normalizeSourceUrl('https://dev.azure.com/org/project/_git/standards?path=/copilot/ts.md&version=GTv1.0.0&_a=contents'),
+			'https://dev.azure.com/org/project/_apis/git/repositories/standards/items?path=%2Fcopilot%2Fts.md'
+				+ '&versionDescriptor.version=v1.0.0&versionDescriptor.versionType=tag&api-version=7.0'
+		);
+	});
+
+	test('uses the repository name as project for {org}/_git/{repo} pages', () => {
+		assert.strictEqual(
+			normalizeSourceUrl('https://dev.azure.com/org/_git/standards?path=/ts.md'),
+			'https://dev.azure.com/org/standards/_apis/git/repositories/standards/items?path=%2Fts.md&api-version=7.0'
+		);
+		assert.strictEqual(
+			normalizeSourceUrl('https://org.visualstudio.com/project/_git/standards?path=/ts.md&version=GBmain'),
+			'https://org.visualstudio.com/project/_apis/git/repositories/standards/items?path=%2Fts.md'
+				+ '&versionDescriptor.version=main&versionDescriptor.versionType=branch&api-version=7.0'
+		);
+	});
+
+	test('leaves raw, API, tree and local URLs unchanged', () => {
+		for (const url of [
+			'https://raw.githubusercontent.com/org/repo/main/ts.md',
+			'https://api.github.com/repos/org/repo/contents/ts.md',
+			'https://github.com/org/repo/tree/main/prompts',
+			'https://dev.azure.com/org/project/_apis/git/repositories/r/items?path=/ts.md',
+			'/shared/ts.md',
+			'https://example.com/ts.md'
+		]) {
+			assert.strictEqual(normalizeSourceUrl(url), url);
+		}
+	});
+});
+
+suite('resolveSourceUrl', () => {
+	test('applies the pinned ref to the normalized URL', () => {
+		assert.strictEqual(
+			resolveSourceUrl({ language: 'TypeScript', url: 'https://github.com/org/repo/blob/main/ts.md', ref: 'v2.0.0' }),
+			'https://raw.githubusercontent.com/org/repo/v2.0.0/ts.md'
+		);
+		assert.strictEqual(
+			resolveSourceUrl({ language: 'TypeScript', url: 'https://dev.azure.com/org/p/_git/r?path=/ts.md', ref: 'v2.0.0' }),
+			'https://dev.azure.com/org/p/_apis/git/repositories/r/items?path=%2Fts.md&api-version=7.0'
+				+ '&versionDescriptor.version=v2.0.0&versionDescriptor.versionType=tag'
+		);
+	});
+});
+
+// ============================================================================
+// Integrity and Signature Tests
+// ============================================================================
+
+suite('verifySha256', () => {
+	const source = { language: 'TypeScript', url: 'https://example.com/ts.md' };
+
+	test('accepts matching hashes case-insensitively', () => {
+		const sha256 = crypto.createHash('sha256').update('# ts').digest('hex');
+		assert.doesNotThrow(() => verifySha256({ ...source, sha256: sha256.toUpperCase() }, sha256));
+	});
+
+	test('rejects mismatches', () => {
+		assert.throws(() => verifySha256({ ...source, sha256: 'abc' }, 'def'), /Integrity check failed for https:\/\/example\.com\/ts\.md/);
+	});
+
+	test('ignores sources without a hash', () => {
+		assert.doesNotThrow(() => verifySha256(source, 'def'));
+	});
+});
+
+suite('computeManifestSha256', () => {
+	test('matches the lock entry hash of directory sources regardless of order', () => {
+		const source = { language: '*', url: 'https://github.com/org/repo/tree/main/prompts' };
+		const entry = createBundleLockEntry(source, { 'b.md': 'bbb', 'a.md': 'aaa' });
+		assert.strictEqual(computeManifestSha256({ 'a.md': 'aaa', 'b.md': 'bbb' }), entry.sha256);
+	});
+});
+
+suite('verifyDetachedSignature', () => {
+	const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+	const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+	const raw = (publicKey.export({ type: 'spki', format: 'der' }) as Buffer).subarray(12).toString('base64');
+	const content = '{ "sources": [] }\n';
+	const signature = crypto.sign(null, Buffer.from(content), privateKey).toString('base64');
+
+	test('accepts valid signatures with PEM and raw keys', () => {
+		assert.strictEqual(verifyDetachedSignature(content, signature, pem), true);
+		assert.strictEqual(verifyDetachedSignature(content, `${signature}\n`, raw), true);
+	});
+
+	test('rejects tampered content and malformed signatures', () => {
+		assert.strictEqual(verifyDetachedSignature(content.replace('[]', '[{}]'), signature, pem), false);
+		assert.strictEqual(verifyDetachedSignature(content, 'bm90IGEgc2lnbmF0dXJl', pem), false);
+	});
+});
+
+suite('parseEd25519PublicKey', () => {
+	test('rejects other key types', () => {
+		const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+		assert.throws(() => parseEd25519PublicKey(publicKey.export({ type: 'spki', format: 'pem' }).toString()), /expected an Ed25519 key/);
+	});
+
+	test('rejects malformed keys', () => {
+		assert.throws(() => parseEd25519PublicKey('not a key'), /Invalid remote configuration public key/);
+	});
+});
+
+suite('getSignatureUrl', () => {
+	test('appends .sig to the file name', () => {
+		assert.strictEqual(getSignatureUrl('https://example.com/config.json'), 'https://example.com/config.json.sig');
+		assert.strictEqual(getSignatureUrl('https://example.com/config.json?token=1'), 'https://example.com/config.json.sig?token=1');
+		assert.strictEqual(getSignatureUrl('/shared/config.json'), '/shared/config.json.sig');
+	});
+
+	test('appends .sig to the path parameter of Azure DevOps items URLs', () => {
+		assert.strictEqual(
+			getSignatureUrl('https://dev.azure.com/org/p/_apis/git/repositories/r/items?path=/config.json'),
+			'https://dev.azure.com/org/p/_apis/git/repositories/r/items?path=%2Fconfig.json.sig'
+		);
+	});
+});
+
+// ============================================================================
+// Remote Configuration Validation Tests
+// ============================================================================
+
+suite('validateRemoteConfig', () => {
+	test('accepts a valid configuration without diagnostics', () => {
+		const parsed = {
+			version: REMOTE_CONFIG_VERSION,
+			sources: [{ language: 'TypeScript', url: 'https://example.com/ts.md', applyTo: true }],
+			settings: [{ scope: 'workspace', settings: { 'editor.tabSize': 2 } }],
+			flags: { syncOnOpen: false },
+			variables: { team: 'payments' },
+			languagePatterns: { Python: ['**/*.py', { pattern: 'pyproject.toml', weight: 10 }] }
+		};
+		const { config, diagnostics } = validateRemoteConfig(parsed);
+		assert.deepStrictEqual(config, parsed);
+		assert.deepStrictEqual(diagnostics, []);
+	});
+
+	test('migrates version 1 flags', () => {
+		const { config, diagnostics } = validateRemoteConfig({ syncOnOpen: true, confirmBeforeSync: false, sources: [] });
+		assert.deepStrictEqual(config, { sources: [], flags: { syncOnOpen: true, confirmBeforeSync: false }, version: 2 });
+		assert.deepStrictEqual(diagnostics, [{ path: '/version', message: 'migrated from version 1 to 2', severity: 'info' }]);
+	});
+
+	test('drops invalid entries and reports their JSON paths', () => {
+		const { config, diagnostics } = validateRemoteConfig({
+			version: 2,
+			sources: [
+				{ language: 'TypeScript', url: 'https://example.com/ts.md' },
+				{ lanugage: 'C#', url: 'https://example.com/cs.md' },
+				{ language: 'Python', url: 42 },
+				{ language: 'Go', url: 'https://example.com/go.md', applyTo: 3 }
+			],
+			settings: [{ scope: 'team', settings: {} }],
+			variables: { team: 'payments', count: 3 }
+		});
+
+		assert.deepStrictEqual(config.sources, [{ language: 'TypeScript', url: 'https://example.com/ts.md' }]);
+		assert.deepStrictEqual(config.settings, []);
+		assert.deepStrictEqual(config.variables, { team: 'payments' });
+
+		const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.path);
+		assert.deepStrictEqual(errors.sort(), ['/settings/0/scope', '/sources/1', '/sources/2/url', '/sources/3/applyTo', '/variables/count']);
+		assert.ok(diagnostics.some(d => d.path === '/sources/1' && d.severity === 'warning' && d.message.includes('"lanugage"')));
+		assert.ok(diagnostics.some(d => d.path === '/settings/0/scope' && d.message.includes('"user", "workspace"')));
+	});
+
+	test('keeps entries with unknown properties', () => {
+		const { config, diagnostics } = validateRemoteConfig({
+			version: 2,
+			sources: [{ language: 'TypeScript', url: 'https://example.com/ts.md', destinatonFolder: 'docs' }],
+			extra: true
+		});
+		assert.strictEqual(config.sources?.length, 1);
+		assert.deepStrictEqual(diagnostics.map(d => [d.path, d.severity]), [['/', 'warning'], ['/sources/0', 'warning']]);
+	});
+
+	test('drops properties of the wrong type', () => {
+		const { config, diagnostics } = validateRemoteConfig({ version: 2, sources: 'https://example.com/ts.md' });
+		assert.strictEqual(config.sources, undefined);
+		assert.strictEqual(diagnostics[0].path, '/sources');
+	});
+
+	test('rejects newer versions and non-objects', () => {
+		assert.throws(() => validateRemoteConfig({ version: REMOTE_CONFIG_VERSION + 1 }), /requires a newer version/);
+		assert.throws(() => validateRemoteConfig({ version: 'two' }), /Invalid remote configuration version/);
+		assert.throws(() => validateRemoteConfig([]), /must be a JSON object/);
+	});
+});
+
+// ============================================================================
+// Layered Remote Configuration Tests
+// ============================================================================
+
+suite('mergeRemoteConfigLayers', () => {
+	const baseline = 'https://example.com/org.json';
+	const team = 'https://example.com/team.json';
+
+	test('later layers replace sources with the same language and destination', () => {
+		const merged = mergeRemoteConfigLayers([
+			{ url: baseline, config: { sources: [
+				{ language: 'TypeScript', url: 'https://example.com/org/ts.md' },
+				{ language: 'Python', url: 'https://example.com/org/py.md' }
+			] } },
+			{ url: team, config: { sources: [
+				{ language: 'typescript', url: 'https://example.com/team/ts.md' },
+				{ language: 'TypeScript', url: 'https://example.com/team/ts-agents.md', destinationFile: 'AGENTS.md' }
+			] } }
+		]);
+
+		assert.deepStrictEqual(merged.sources, [
+			{ language: 'typescript', url: 'https://example.com/team/ts.md', origin: team },
+			{ language: 'Python', url: 'https://example.com/org/py.md', origin: baseline },
+			{ language: 'TypeScript', url: 'https://example.com/team/ts-agents.md', destinationFile: 'AGENTS.md', origin: team }
+		]);
+	});
+
+	test('an overlay can disable a baseline source', () => {
+		const merged = mergeRemoteConfigLayers([
+			{ url: baseline, config: { sources: [{ language: 'Python', url: 'https://example.com/org/py.md' }] } },
+			{ url: team, config: { sources: [{ language: 'Python', url: 'https://example.com/org/py.md', enabled: false }] } }
+		]);
+		assert.strictEqual(merged.sources?.length, 1);
+		assert.strictEqual(merged.sources?.[0].enabled, false);
+		assert.strictEqual(merged.sources?.[0].origin, team);
+	});
+
+	test('merges settings entries with the same scope and language key by key', () => {
+		const merged = mergeRemoteConfigLayers([
+			{ url: baseline, config: { settings: [
+				{ scope: 'workspace', settings: { 'editor.tabSize': 4, 'editor.formatOnSave': true } },
+				{ scope: 'workspace', language: 'Python', settings: { 'editor.tabSize': 4 } }
+			] } },
+			{ url: team, config: { settings: [
+				{ scope: 'workspace', settings: { 'editor.tabSize': 2 } },
+				{ scope: 'user', settings: { 'editor.fontSize': 14 } }
+			] } }
+		]);
+
+		assert.deepStrictEqual(merged.settings, [
+			{ scope: 'workspace', settings: { 'editor.tabSize': 2, 'editor.formatOnSave': true } },
+			{ scope: 'workspace', language: 'Python', settings: { 'editor.tabSize': 4 } },
+			{ scope: 'user', settings: { 'editor.fontSize': 14 } }
+		]);
+	});
+
+	test('merges flags, variables and language patterns with later layers winning', () => {
+		const merged = mergeRemoteConfigLayers([
+			{ url: baseline, config: {
+				flags: { syncOnOpen: true, confirmBeforeSync: true },
+				variables: { org: 'acme', team: 'platform' },
+				languagePatterns: { Python: ['**/*.py'], Go: ['**/*.go'] }
+			} },
+			{ url: team, config: {
+				extends: baseline,
+				flags: { confirmBeforeSync: false },
+				variables: { team: 'payments' },
+				languagePatterns: { Python: [] }
+			} }
+		]);
+
+		assert.deepStrictEqual(merged, {
+			version: REMOTE_CONFIG_VERSION,
+			flags: { syncOnOpen: true, confirmBeforeSync: false },
+			variables: { org: 'acme', team: 'payments' },
+			languagePatterns: { Python: [], Go: ['**/*.go'] }
+		});
+	});
+
+	test('returns an empty configuration for no layers', () => {
+		assert.deepStrictEqual(mergeRemoteConfigLayers([]), { version: REMOTE_CONFIG_VERSION });
+	});
+});
+
+// ============================================================================
+// Repository Configuration Tests
+// ============================================================================
+
+suite('applyWorkspaceConfig', () => {
+	const central: InstructionSource[] = [
+		{ language: '*', url: 'https://example.com/general.md', origin: 'https://example.com/org.json' },
+		{ language: 'TypeScript', url: 'https://example.com/ts.md', origin: 'https://example.com/org.json' },
+		{ language: 'TypeScript', id: 'react', url: 'https://example.com/react.md', destinationFile: 'react.md', profiles: ['frontend'] },
+		{ language: 'C#', id: 'payments-api', url: 'https://example.com/payments.md', profiles: ['payments'] }
+	];
+
+	test('skips sources with profiles without a repository configuration', () => {
+		assert.deepStrictEqual(applyWorkspaceConfig(central, undefined), central.slice(0, 2));
+	});
+
+	test('keeps sources of subscribed profiles and source ids', () => {
+		const byProfile = applyWorkspaceConfig(central, { subscribe: ['Frontend'] });
+		assert.deepStrictEqual(byProfile.map(s => s.url), ['https://example.com/general.md', 'https://example.com/ts.md', 'https://example.com/react.md']);
+
+		const byId = applyWorkspaceConfig(central, { subscribe: ['payments-api'] });
+		assert.deepStrictEqual(byId.map(s => s.url), ['https://example.com/general.md', 'https://example.com/ts.md', 'https://example.com/payments.md']);
+	});
+
+	test('drops excluded sources by id, language or URL', () => {
+		assert.deepStrictEqual(applyWorkspaceConfig(central, { subscribe: ['frontend'], exclude: ['react'] }).map(s => s.url),
+			['https://example.com/general.md', 'https://example.com/ts.md']);
+		assert.deepStrictEqual(applyWorkspaceConfig(central, { exclude: ['*', 'https://example.com/TS.md'] }), []);
+	});
+
+	test('adds repository sources, resolving local paths relative to the configuration', () => {
+		const configPath = '/repo/.github/instruction-sync.json';
+		const sources = applyWorkspaceConfig(central, {
+			sources: [
+				{ language: 'TypeScript', url: '../docs/typescript.md' },
+				{ language: 'Python', url: 'https://example.com/py.md' },
+				{ language: 'Markdown', url: './prompts/', destinationFolder: '.github/prompts' }
+			]
+		}, configPath);
+
+		assert.deepStrictEqual(sources.map(s => [s.language, s.url, s.origin]), [
+			['*', 'https://example.com/general.md', 'https://example.com/org.json'],
+			['TypeScript', '/repo/docs/typescript.md', configPath],
+			['Python', 'https://example.com/py.md', configPath],
+			['Markdown', '/repo/.github/prompts/', configPath]
+		]);
+	});
+});
+
+// ============================================================================
+// Remote Policy Tests
+// ============================================================================
+
+suite('Remote policy', () => {
+	const org = 'https://example.com/org.json';
+	const team = 'https://example.com/team.json';
+
+	test('resolveFlag prefers enforced values, then settings, then remote defaults', () => {
+		assert.deepStrictEqual(resolveFlag('confirmBeforeSync', { value: true, enforced: true }, false), { value: true, source: 'policy', overridden: true });
+		assert.deepStrictEqual(resolveFlag('confirmBeforeSync', { value: true, enforced: true }, true), { value: true, source: 'policy' });
+		assert.deepStrictEqual(resolveFlag('syncOnOpen', false, true), { value: true, source: 'settings' });
+		assert.deepStrictEqual(resolveFlag('syncOnOpen', { value: false }, undefined), { value: false, source: 'remote' });
+		assert.deepStrictEqual(resolveFlag('syncOnOpen', undefined, undefined), { value: true, source: 'default' });
+		assert.deepStrictEqual(resolveFlag('syncOnConfigChange', undefined, undefined), { value: false, source: 'default' });
+	});
+
+	test('validateRemoteConfig accepts enforced flags and required sources', () => {
+		const parsed = {
+			version: 2,
+			sources: [{ language: '*', url: 'https://example.com/security.md', required: true }],
+			flags: { confirmBeforeSync: { value: true, enforced: true }, syncOnOpen: false }
+		};
+		assert.deepStrictEqual(validateRemoteConfig(parsed).diagnostics, []);
+		assert.deepStrictEqual(validateRemoteConfig({ version: 2, flags: { syncOnOpen: { enforced: true } } }).config.flags, {});
+	});
+
+	test('later layers cannot change enforced flags or required sources', () => {
+		const merged = mergeRemoteConfigLayers([
+			{ url: org, config: {
+				sources: [{ language: '*', url: 'https://example.com/security.md', required: true }],
+				flags: { confirmBeforeSync: { value: true, enforced: true }, syncOnOpen: true }
+			} },
+			{ url: team, config: {
+				sources: [{ language: '*', url: 'https://example.com/security.md', enabled: false }],
+				flags: { confirmBeforeSync: false, syncOnOpen: { value: false, enforced: true } }
+			} }
+		]);
+
+		assert.deepStrictEqual(merged.sources, [{ language: '*', url: 'https://example.com/security.md', required: true, origin: org }]);
+		assert.deepStrictEqual(merged.flags, { confirmBeforeSync: { value: true, enforced: true }, syncOnOpen: { value: false, enforced: true } });
+	});
+
+	test('repository configurations cannot exclude or override required sources', () => {
+		const central: InstructionSource[] = [
+			{ language: '*', url: 'https://example.com/security.md', required: true, origin: org },
+			{ language: 'TypeScript', url: 'https://example.com/ts.md', required: true, origin: 'settings' }
+		];
+		const sources = applyWorkspaceConfig(central, {
+			exclude: ['*', 'TypeScript'],
+			sources: [{ language: '*', url: './general.md' }]
+		}, '/repo/.instruction-sync.json');
+
+		assert.deepStrictEqual(sources, [central[0]]);
+	});
+
+	test('repository configurations cannot use local files outside the workspace folder', () => {
+		const config: WorkspaceConfig = {
+			sources: [
+				{ language: 'TypeScript', url: './docs/ts.md' },
+				{ language: 'SSH', url: '/home/dev/.ssh/config' },
+				{ language: 'Passwd', url: '../../etc/passwd' },
+				{ language: 'File', url: 'file:///etc/passwd' },
+				{ language: 'Python', url: 'https://example.com/py.md' }
+			]
+		};
+		const diagnostics = checkWorkspaceSourcePaths(config, '/repo/.github/instruction-sync.json', '/repo');
+
+		assert.deepStrictEqual(config.sources!.map(s => s.language), ['TypeScript', 'Python']);
+		assert.deepStrictEqual(diagnostics.map(d => d.path), ['/sources/1/url', '/sources/2/url', '/sources/3/url']);
+		assert.ok(diagnostics.every(d => d.severity === 'error'));
+	});
+
+	test('repository configurations cannot require their own sources', () => {
+		const [source] = applyWorkspaceConfig([], {
+			sources: [{ language: 'TypeScript', url: './ts.md', required: true }]
+		}, '/repo/.instruction-sync.json');
+
+		assert.strictEqual(source.url, '/repo/ts.md');
+		assert.strictEqual(isRequiredSource(source), false);
+	});
+});
+
+// ============================================================================
+// Diff Preview Tests
+// ============================================================================
+
+suite('renderDestinationFile', () => {
+	const source: InstructionSource = { language: 'C#', url: 'https://example.com/cs.md', managed: true };
+
+	test('returns the instructions for unmanaged files', () => {
+		assert.strictEqual(renderDestinationFile('old\n', 'new\n', { language: 'C#', url: 'https://example.com/cs.md' }), 'new\n');
+	});
+
+	test('previews the whole file with the managed block replaced', () => {
+		const existing = 'notes\n<!-- instruction-sync:begin id=csharp -->\nold\n<!-- instruction-sync:end id=csharp -->\n';
+		assert.strictEqual(
+			renderDestinationFile(existing, 'new', source, 'csharp'),
+			'notes\n<!-- instruction-sync:begin id=csharp -->\nnew\n<!-- instruction-sync:end id=csharp -->\n'
+		);
+	});
+
+	test('inserts a missing block at the source insert position', () => {
+		assert.strictEqual(
+			renderDestinationFile('notes\n', 'new', { ...source, insertPosition: 'top' }, 'csharp'),
+			'<!-- instruction-sync:begin id=csharp -->\nnew\n<!-- instruction-sync:end id=csharp -->\n\nnotes\n'
+		);
+		assert.strictEqual(
+			renderDestinationFile(null, 'new', source, 'csharp'),
+			'<!-- instruction-sync:begin id=csharp -->\nnew\n<!-- instruction-sync:end id=csharp -->\n'
+		);
+	});
+});